@@ -0,0 +1,54 @@
+import React, { useState } from "react"
+import { useSignalEngine } from "../context"
+import { HYDRATION_SCRIPT_ID, serializeSnapshot } from "../hydration"
+import type { SignalPattern } from "../pattern"
+
+// ================================
+// ▸ TYPE DEFINITIONS
+// ================================
+
+/**
+ * Props for SignalHydration component
+ */
+export interface SignalHydrationProps {
+	/** Only include signals matching this prefix, glob or RegExp */
+	filter?: SignalPattern
+	/** ID of the script element, must match the one passed to `hydrateSignals` */
+	id?: string
+	/** CSP nonce for the script element */
+	nonce?: string
+}
+
+// ================================
+// ▸ SIGNALHYDRATION COMPONENT
+// ================================
+
+/**
+ * Inline the server's signal snapshot so `hydrateSignals()` can seed the client engine
+ * Render it after the content that creates signals, e.g. at the end of `<body>`
+ *
+ * @example
+ * <body>
+ *   {children}
+ *   <SignalHydration />
+ *   <Scripts />
+ * </body>
+ */
+export function SignalHydration(props: SignalHydrationProps): React.ReactElement {
+	const { filter, id = HYDRATION_SCRIPT_ID, nonce } = props
+	const engine = useSignalEngine()
+
+	// On the client, keep the markup the server sent instead of re-serializing client state
+	const [html] = useState(() => {
+		const existing = typeof document === "undefined" ? null : document.getElementById(id)
+		return existing?.textContent ?? serializeSnapshot(engine.snapshot(filter))
+	})
+
+	return React.createElement("script", {
+		type: "application/json",
+		id,
+		nonce,
+		suppressHydrationWarning: true,
+		dangerouslySetInnerHTML: { __html: html },
+	})
+}
@@ -1,6 +1,8 @@
-import React, { useEffect, useRef, type ReactNode, useCallback, Fragment } from "react"
-import { REACTIVE_CORE } from "../core"
-import type { SignalId } from "../core"
+import React, { useEffect, useRef, type ReactNode, useCallback, useState, Fragment } from "react"
+import { useSignalEngine } from "../context"
+import type { ReactiveEngine, SignalId } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import { type SignalPattern, matchSignalId } from "../pattern"
 
 // ================================
 // ▸ TYPE DEFINITIONS
@@ -28,10 +30,13 @@ export type ListType = "ul" | "ol" | "slot"
  * Props for SignalList component
  */
 export interface SignalListProps<T = unknown> {
-	/** Signal ID containing array data */
-	id?: SignalId
-	/** Pattern for pattern-based signal matching */
-	pattern?: string
+	/** Signal ID or handle containing array data */
+	id?: SignalId | SignalHandle<T[]>
+	/**
+	 * Pattern for pattern-based signal matching: a prefix, glob or RegExp
+	 * Items are keyed by the `id` capture (or the first wildcard / group); the rest of the ID names the property
+	 */
+	pattern?: SignalPattern
 	/** Property to use as unique key */
 	keyBy: string
 	/** List type - ul, ol, or slot (no wrapper) */
@@ -189,6 +194,59 @@ function shouldWrapInListItem(result: ReactNode, isSlot: boolean): boolean {
 	return true
 }
 
+/**
+ * Wrap a rendered item the same way the DOM binding does, as a keyed React node
+ */
+function toListItem(key: string, result: ReactNode, isSlot: boolean): ReactNode {
+	if (shouldWrapInListItem(result, isSlot)) {
+		return React.createElement("li", { key, "data-key": key }, result)
+	}
+
+	if (React.isValidElement(result)) {
+		return React.cloneElement(result, { key, "data-key": key } as Record<string, unknown>)
+	}
+
+	return React.createElement("span", { key, "data-key": key }, result)
+}
+
+/**
+ * Split a matched signal ID into item ID and property
+ * The item ID is the `id` capture, or else the first capture; the property is whatever follows it (`value` if nothing does).
+ * Without captures (plain prefixes), the item ID is the second segment and the property the remaining ones
+ */
+function splitPatternMatch(signalId: SignalId, match: RegExpExecArray): [string, string] | null {
+	const span = match.indices?.groups?.id ?? match.indices?.[1]
+	if (span) {
+		const property = signalId.slice(span[1]).replace(/^\./, "")
+		return [signalId.slice(span[0], span[1]), property || "value"]
+	}
+
+	const parts = signalId.split(".")
+	if (parts.length < 3) return null
+	return [parts[1], parts.slice(2).join(".")]
+}
+
+/**
+ * Group signals matching a pattern by item ID and property
+ */
+function groupPatternSignals(engine: ReactiveEngine, pattern: SignalPattern): Record<string, Record<string, unknown>> {
+	const itemGroups: Record<string, Record<string, unknown>> = {}
+
+	for (const { id: signalId, value } of engine.query(pattern)) {
+		const match = matchSignalId(signalId, pattern)
+		const split = match && splitPatternMatch(signalId, match)
+		if (!split) continue
+
+		const [itemId, property] = split
+		if (!itemGroups[itemId]) {
+			itemGroups[itemId] = {}
+		}
+		itemGroups[itemId][property] = value
+	}
+
+	return itemGroups
+}
+
 // ================================
 // ▸ SIGNALLIST COMPONENT
 // ================================
@@ -197,11 +255,12 @@ function shouldWrapInListItem(result: ReactNode, isSlot: boolean): boolean {
  * SignalList component for efficient list rendering with zero React re-renders
  */
 export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactElement {
+	const contextEngine = useSignalEngine()
 	const listRef = useRef<HTMLElement>(null)
 	const cleanupRef = useRef<(() => void) | null>(null)
 
 	const {
-		id,
+		id: source,
 		pattern,
 		keyBy,
 		type = "ul",
@@ -212,8 +271,38 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 		...otherProps
 	} = props
 
+	const engine = getSourceEngine(source, contextEngine)
+	const id = source === undefined ? undefined : getSignalId(source)
 	const isSlot = type === "slot"
 
+	// Rendered once from the current values so SSR and the first client render show real items.
+	// Kept identical across re-renders so React never touches the DOM the effect below patches
+	const [initialItems] = useState<ReactNode>(() => {
+		const placeholderItem = React.createElement("li", { key: "loading" }, placeholder)
+
+		if (id) {
+			const value = engine.getValue<T[]>(id)
+			if (!Array.isArray(value) || value.length === 0) return placeholderItem
+
+			return value.map((item, index) => {
+				const key = String((item as any)[keyBy] || index)
+				return toListItem(key, (children as ListItemRenderProp<T>)(item, index), isSlot)
+			})
+		}
+
+		if (pattern) {
+			const itemGroups = groupPatternSignals(engine, pattern)
+			const itemIds = Object.keys(itemGroups)
+			if (itemIds.length === 0) return placeholderItem
+
+			return itemIds.map((itemId) =>
+				toListItem(itemId, (children as PatternItemRenderProp)(itemId, itemGroups[itemId]), isSlot)
+			)
+		}
+
+		return isSlot ? null : placeholderItem
+	})
+
 	const createArrayListBinding = useCallback(
 		(_: SignalId) => {
 			return (value: T[]) => {
@@ -252,28 +341,12 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 	)
 
 	const createPatternListBinding = useCallback(
-		(patternStr: string) => {
+		(pattern: SignalPattern) => {
 			return () => {
 				const element = listRef.current
 				if (!element) return
 
-				const allSignals = REACTIVE_CORE.getActiveSignals()
-				const matchingSignals = allSignals.filter((signalId) => signalId.startsWith(patternStr))
-
-				const itemGroups: Record<string, Record<string, unknown>> = {}
-
-				for (const signalId of matchingSignals) {
-					const parts = signalId.split(".")
-					if (parts.length >= 3) {
-						const itemId = parts[1]
-						const property = parts.slice(2).join(".")
-
-						if (!itemGroups[itemId]) {
-							itemGroups[itemId] = {}
-						}
-						itemGroups[itemId][property] = REACTIVE_CORE.getValue(signalId)
-					}
-				}
+				const itemGroups = groupPatternSignals(engine, pattern)
 
 				const itemsHTML = Object.keys(itemGroups)
 					.map((itemId) => {
@@ -298,7 +371,7 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 				attachEventListeners(element)
 			}
 		},
-		[children, isSlot, placeholder]
+		[engine, children, isSlot, placeholder]
 	)
 
 	useEffect(() => {
@@ -310,20 +383,37 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 		if (id) {
 			// Prefer id over pattern
 			const bindingFn = createArrayListBinding(id)
-			cleanupRef.current = REACTIVE_CORE.subscribe(id, bindingFn)
+			cleanupRef.current = engine.subscribe(id, bindingFn)
 
-			bindingFn(REACTIVE_CORE.getValue(id) as T[])
+			bindingFn(engine.getValue(id) as T[])
 		} else if (pattern && !id) {
 			const bindingFn = createPatternListBinding(pattern)
 
-			const allSignals = REACTIVE_CORE.getActiveSignals()
-			const matchingSignals = allSignals.filter((signalId) => signalId.startsWith(pattern))
+			const cleanups = new Map<SignalId, () => void>()
+			const watch = (signalId: SignalId) => {
+				const cleanup = engine.subscribe(signalId, bindingFn)
+				if (cleanup) cleanups.set(signalId, cleanup)
+			}
 
-			const cleanups = matchingSignals.map((signalId) => REACTIVE_CORE.subscribe(signalId, bindingFn))
+			for (const match of engine.query(pattern)) {
+				watch(match.id)
+			}
+
+			// Items come and go as matching signals are created or removed
+			const stopCreated = engine.onSignalCreated((signalId) => {
+				watch(signalId)
+				bindingFn()
+			}, pattern)
+			const stopRemoved = engine.onSignalRemoved((signalId) => {
+				cleanups.delete(signalId)
+				bindingFn()
+			}, pattern)
 
 			cleanupRef.current = () => {
-				for (const cleanup of cleanups) {
-					cleanup?.()
+				stopCreated()
+				stopRemoved()
+				for (const cleanup of cleanups.values()) {
+					cleanup()
 				}
 			}
 
@@ -336,18 +426,22 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 				cleanupRef.current = null
 			}
 		}
-	}, [id, pattern, createArrayListBinding, createPatternListBinding])
+	}, [engine, id, pattern, createArrayListBinding, createPatternListBinding])
 
 	if (isSlot) {
-		return React.createElement("span", {
-			ref: listRef,
-			// CSS display: contents makes the element invisible
-			style: { display: "contents" },
-			...otherProps,
-		})
+		return React.createElement(
+			"span",
+			{
+				ref: listRef,
+				// CSS display: contents makes the element invisible
+				style: { display: "contents" },
+				...otherProps,
+			},
+			React.createElement(Fragment, null, initialItems)
+		)
 	}
 
-	// Normal list rendering - MOUNTS ONCE with placeholder
+	// Normal list rendering - MOUNTS ONCE with the initial items
 	const ListComponent = type === "ol" ? "ol" : "ul"
 
 	return React.createElement(
@@ -359,11 +453,7 @@ export function SignalList<T = unknown>(props: SignalListProps<T>): React.ReactE
 			...otherProps,
 		},
 		// Switched to a fragment wrapper due to React 18 more strict children types
-		React.createElement(
-			Fragment,
-			null,
-			// Initial placeholder content - will be replaced by signal updates
-			React.createElement("li", { key: "loading" }, placeholder)
-		)
+		// Initial content - will be replaced by signal updates
+		React.createElement(Fragment, null, initialItems)
 	)
 }
@@ -1,6 +1,18 @@
-import React, { useEffect, useRef, type ReactNode, type ElementType, useMemo, useCallback, Fragment } from "react"
-import { REACTIVE_CORE } from "../core"
-import type { SignalId } from "../core"
+import React, {
+	useEffect,
+	useRef,
+	type ReactNode,
+	type ElementType,
+	useMemo,
+	useCallback,
+	useState,
+	Fragment,
+} from "react"
+import { useSignalEngine } from "../context"
+import type { ReactiveEngine, SignalId } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
+import type { SchedulerMode } from "../scheduler"
 
 // ================================
 // ▸ TYPE DEFINITIONS
@@ -19,11 +31,11 @@ export type MultiSignalRenderProp<T extends Record<string, unknown>> = (values:
 /**
  * Props for Signal component
  */
-export interface SignalProps<T = unknown> {
-	/** Single signal ID to bind to */
-	id?: SignalId
-	/** Multiple signal IDs to bind to */
-	ids?: SignalId[]
+export interface SignalProps<T = unknown, K extends SignalKey = SignalKey> {
+	/** Single signal ID or handle to bind to */
+	id?: K | SignalHandle<SignalType<K, T>>
+	/** Multiple signal IDs or handles to bind to; handles are expected to share one engine */
+	ids?: (SignalKey | SignalHandle)[]
 	/** Element type to render or null for slot behavior */
 	as?: ElementType | null
 	/** Placeholder content while loading */
@@ -33,9 +45,11 @@ export interface SignalProps<T = unknown> {
 	/** Inline styles */
 	style?: React.CSSProperties
 	/** Render prop for custom rendering or static children */
-	children?: SignalRenderProp<T> | ReactNode
+	children?: SignalRenderProp<SignalType<K, T>> | ReactNode
 	/** Security: Allow HTML content within signal (dangerous) */
 	dangerouslySetInnerHTML?: boolean
+	/** When DOM updates run after a change; defaults to the engine's scheduler */
+	scheduler?: SchedulerMode
 	/** Additional props for the element */
 	[key: string]: any
 }
@@ -178,6 +192,25 @@ function renderReactNodeToHTML(node: ReactNode, parentElement?: HTMLElement): st
 	return String(node)
 }
 
+/**
+ * Collect values for a multi-signal render prop
+ * Keys are the last ID segment, or the full sanitized ID when short keys would collide
+ */
+function collectSignalValues(engine: ReactiveEngine, signalIds: SignalId[]): Record<string, unknown> {
+	const values: Record<string, unknown> = {}
+
+	// First, check if short keys would cause collisions
+	const shortKeys = signalIds.map((id) => id.split(".").pop()?.replaceAll("-", "_") || id)
+	const hasCollisions = new Set(shortKeys).size !== shortKeys.length
+
+	for (const signalId of signalIds) {
+		const key = hasCollisions ? signalId.replace(/[^a-zA-Z0-9_]/g, "_") : signalId.split(".").pop() || signalId
+		values[key] = engine.getValue(signalId)
+	}
+
+	return values
+}
+
 // ================================
 // ▸ SIGNAL COMPONENT
 // ================================
@@ -207,36 +240,67 @@ function renderReactNodeToHTML(node: ReactNode, parentElement?: HTMLElement): st
  *   {color => <div style={{backgroundColor: color}}>Themed content</div>}
  * </Signal>
  */
-export function Signal<T = unknown>(props: SignalProps<T>): React.ReactElement {
+export function Signal<T = unknown, K extends SignalKey = SignalKey>(props: SignalProps<T, K>): React.ReactElement {
+	type Value = SignalType<K, T>
+
+	const contextEngine = useSignalEngine()
 	const elementRef = useRef<HTMLElement>(null)
 	const cleanupRef = useRef<(() => void) | null>(null)
 
 	const {
-		id,
-		ids,
+		id: source,
+		ids: sources,
 		as,
 		placeholder = "Loading...",
 		children,
 		className,
 		style,
 		dangerouslySetInnerHTML = false,
+		scheduler,
 		...otherProps
 	} = props
 
+	// A handle brings its own engine; plain IDs use the one from context
+	const engine = getSourceEngine(source ?? sources?.find((item) => typeof item !== "string"), contextEngine)
+	const id = source === undefined ? undefined : getSignalId(source)
+	const ids = sources?.map(getSignalId)
+
 	// Check if this is slot behavior
 	const isSlot = as === null
 
 	// biome-ignore lint/correctness/useExhaustiveDependencies: This is why I created a lib to bypass React model
 	const memoizedIds = useMemo(() => ids, [ids?.join(",")])
 
+	// Rendered once from the current values so SSR and the first client render show real content.
+	// Kept identical across re-renders so React never touches the DOM the effect below patches
+	const [initialContent] = useState<{ children: ReactNode } | { dangerouslySetInnerHTML: { __html: string } }>(() => {
+		// Switched to a fragment wrapper due to React 18 more strict children types
+		const wrap = (content: ReactNode) => ({ children: React.createElement(Fragment, null, content) })
+		const fallback = typeof children === "function" ? placeholder : children || placeholder
+
+		if (id) {
+			const value = engine.getValue<Value>(id)
+			if (typeof children === "function") return wrap((children as SignalRenderProp<Value>)(value as Value))
+			if (value === undefined) return wrap(fallback)
+			if (dangerouslySetInnerHTML && typeof value === "string") return { dangerouslySetInnerHTML: { __html: value } }
+			return wrap(String(value ?? ""))
+		}
+
+		if (memoizedIds && typeof children === "function") {
+			return wrap((children as MultiSignalRenderProp<any>)(collectSignalValues(engine, memoizedIds)))
+		}
+
+		return wrap(fallback)
+	})
+
 	const createSingleSignalBinding = useCallback(
 		(_: SignalId) => {
-			return (value: T) => {
+			return (value: Value) => {
 				const element = elementRef.current
 				if (!element) return
 
 				if (typeof children === "function") {
-					const result = (children as SignalRenderProp<T>)(value)
+					const result = (children as SignalRenderProp<Value>)(value)
 					const htmlString = renderReactNodeToHTML(result, element)
 					element.innerHTML = htmlString
 					attachEventListeners(element)
@@ -263,25 +327,14 @@ export function Signal<T = unknown>(props: SignalProps<T>): React.ReactElement {
 				if (!element) return
 
 				if (typeof children === "function") {
-					const values: Record<string, unknown> = {}
-
-					// First, check if short keys would cause collisions
-					const shortKeys = signalIds.map((id) => id.split(".").pop()?.replaceAll("-", "_") || id)
-					const hasCollisions = new Set(shortKeys).size !== shortKeys.length
-
-					for (const signalId of signalIds) {
-						const key = hasCollisions ? signalId.replace(/[^a-zA-Z0-9_]/g, "_") : signalId.split(".").pop() || signalId
-						values[key] = REACTIVE_CORE.getValue(signalId)
-					}
-
-					const result = (children as MultiSignalRenderProp<any>)(values)
+					const result = (children as MultiSignalRenderProp<any>)(collectSignalValues(engine, signalIds))
 					const htmlString = renderReactNodeToHTML(result, element)
 					element.innerHTML = htmlString
 					attachEventListeners(element)
 				}
 			}
 		},
-		[children]
+		[engine, children]
 	)
 
 	// biome-ignore lint/correctness/useExhaustiveDependencies: No explanation needed
@@ -291,11 +344,13 @@ export function Signal<T = unknown>(props: SignalProps<T>): React.ReactElement {
 			cleanupRef.current = null
 		}
 
+		const options = { scheduler: scheduler ?? engine.getScheduler() }
+
 		if (id) {
 			const bindingFn = createSingleSignalBinding(id)
-			cleanupRef.current = REACTIVE_CORE.subscribe(id, bindingFn)
+			cleanupRef.current = engine.subscribe(id, bindingFn, options)
 
-			bindingFn(REACTIVE_CORE.getValue(id) as T)
+			bindingFn(engine.getValue(id) as Value)
 		} else if (memoizedIds && !id) {
 			if (typeof children !== "function") {
 				return
@@ -303,7 +358,7 @@ export function Signal<T = unknown>(props: SignalProps<T>): React.ReactElement {
 
 			const bindingFn = createMultiSignalBinding(memoizedIds)
 
-			const cleanups = memoizedIds.map((signalId) => REACTIVE_CORE.subscribe(signalId, bindingFn))
+			const cleanups = memoizedIds.map((signalId) => engine.subscribe(signalId, bindingFn, options))
 
 			cleanupRef.current = () => {
 				for (const cleanup of cleanups) {
@@ -320,27 +375,24 @@ export function Signal<T = unknown>(props: SignalProps<T>): React.ReactElement {
 				cleanupRef.current = null
 			}
 		}
-	}, [id, memoizedIds, createSingleSignalBinding, createMultiSignalBinding])
+	}, [engine, id, memoizedIds, scheduler, createSingleSignalBinding, createMultiSignalBinding])
 
 	if (isSlot) {
 		return React.createElement("span", {
 			ref: elementRef,
 			style: { ...otherProps.style, display: "contents" },
 			...otherProps,
+			...initialContent,
 		})
 	}
 
 	const Component = as || "span"
 
-	return React.createElement(
-		Component,
-		{
-			ref: elementRef,
-			className,
-			style,
-			...otherProps,
-		},
-		// Switched to a fragment wrapper due to React 18 more strict children types
-		React.createElement(Fragment, null, typeof children === "function" ? placeholder : children || placeholder)
-	)
+	return React.createElement(Component, {
+		ref: elementRef,
+		className,
+		style,
+		...otherProps,
+		...initialContent,
+	})
 }
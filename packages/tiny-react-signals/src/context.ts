@@ -0,0 +1,38 @@
+import { type ReactElement, type ReactNode, createContext, createElement, useContext } from "react"
+import type { ReactiveEngine } from "./core"
+import { getCurrentEngine } from "./scope"
+
+const SignalEngineContext = createContext<ReactiveEngine | null>(null)
+
+/**
+ * Props for SignalEngineProvider
+ */
+export interface SignalEngineProviderProps {
+	/** Engine that hooks and components below this provider should use */
+	engine: ReactiveEngine
+	children?: ReactNode
+}
+
+/**
+ * Provide a reactive engine to every signal hook and component below it
+ * Without a provider, the current engine from `getCurrentEngine` is used
+ *
+ * @example
+ * const engine = createEngine()
+ *
+ * <SignalEngineProvider engine={engine}>
+ *   <Widget />
+ * </SignalEngineProvider>
+ */
+export function SignalEngineProvider({ engine, children }: SignalEngineProviderProps): ReactElement {
+	return createElement(SignalEngineContext.Provider, { value: engine }, children)
+}
+
+/**
+ * Hook for reading the reactive engine from the nearest SignalEngineProvider
+ *
+ * @returns The provided engine, or the current engine if there is no provider
+ */
+export function useSignalEngine(): ReactiveEngine {
+	return useContext(SignalEngineContext) ?? getCurrentEngine()
+}
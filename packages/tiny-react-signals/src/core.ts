@@ -1,28 +1,198 @@
+import { type EqualityFunction, type EqualityOption, deepEqual, resolveEquality } from "./equality"
+import { type SignalMatch, type SignalPattern, matchSignalId, matchesPattern } from "./pattern"
+import { type PersistOptions, persistSignal } from "./persist"
+import {
+	type RateLimitOption,
+	type RateLimitTargets,
+	type RateLimiter,
+	createRateLimiter,
+	resolveRateLimitTargets,
+} from "./rate-limit"
+import {
+	type BindingOptions,
+	type EngineOptions,
+	type SchedulerMode,
+	type SchedulerTiming,
+	defaultTiming,
+} from "./scheduler"
+import { enterEngineScope, exitEngineScope } from "./scope"
+import {
+	type SignalValidator,
+	type ValidationMode,
+	type ValidationResult,
+	getIssuesSignalId,
+	normalizeValidator,
+} from "./validation"
+
 export type SignalId = string
 export type SignalValue = unknown
 export type BindingFunction<T = unknown> = (element: HTMLElement, value: T) => void
 export type CallbackFunction<T = unknown> = (value: T) => void
 export type ComputeFunction<T = unknown> = (...dependencies: unknown[]) => T
 export type TypedComputeFunction<T = unknown> = (...args: any[]) => T
+export type TrackedComputeFunction<T = unknown> = () => T
 export type ConditionFunction<T = unknown> = (value: T) => boolean
 export type Transformer<T> = (value: T) => T
 export type TransformerChain<T> = Transformer<T>[]
 
+/**
+ * Return this from an interceptor to cancel the update
+ */
+export const CANCEL_UPDATE: unique symbol = Symbol("CANCEL_UPDATE")
+
+/**
+ * A write seen by interceptors
+ * `prev` is the current raw value and `next` the value being written, both before transformers run
+ */
+export interface SignalUpdate<T = unknown> {
+	id: SignalId
+	prev: T
+	next: T
+}
+
+/**
+ * Inspect a write and return the value to store, or `CANCEL_UPDATE` to reject it
+ */
+export type UpdateInterceptor<T = unknown> = (update: SignalUpdate<T>) => T | typeof CANCEL_UPDATE
+
+/**
+ * Thrown when computed signals depend on each other in a loop
+ * `path` lists the signal IDs along the loop, starting and ending with the same ID
+ */
+export class SignalCycleError extends Error {
+	readonly path: SignalId[]
+
+	constructor(path: SignalId[]) {
+		super(`Circular dependency between computed signals: ${path.join(" -> ")}`)
+		this.name = "SignalCycleError"
+		this.path = path
+	}
+}
+
+/**
+ * Thrown when removing a signal that computed signals still depend on, under the `refuse` policy
+ * `dependents` lists the computed signals that would be left without a dependency
+ */
+export class SignalDependencyError extends Error {
+	readonly id: SignalId
+	readonly dependents: SignalId[]
+
+	constructor(id: SignalId, dependents: SignalId[]) {
+		super(`Cannot remove signal "${id}" while computed signals depend on it: ${dependents.join(", ")}`)
+		this.name = "SignalDependencyError"
+		this.id = id
+		this.dependents = dependents
+	}
+}
+
+/**
+ * What happens to computed signals depending on a removed signal
+ * - `refuse`: throw a `SignalDependencyError` and remove nothing
+ * - `cascade`: remove them too, along with everything built on top of them
+ * - `detach`: keep them as plain signals frozen at their current value
+ */
+export type CascadePolicy = "refuse" | "cascade" | "detach"
+
+export interface RemoveOptions {
+	/** Policy for computed signals depending on the removed ones (default: `detach`) */
+	cascade?: CascadePolicy
+}
+
+export interface SubscribeOptions extends BindingOptions {
+	/** Don't count as a user for `autoDispose`, e.g. for persistence, sync and history watchers (default: false) */
+	weak?: boolean
+}
+
+/**
+ * Called with the ID of a signal that was created or removed
+ */
+export type SignalLifecycleListener = (id: SignalId) => void
+
+/**
+ * Engine lifecycle events: every new signal is `created`, computed ones are also `computed`
+ */
+export type SignalLifecycleEvent = "created" | "removed" | "computed"
+
+interface LifecycleSubscription {
+	listener: SignalLifecycleListener
+	pattern?: SignalPattern
+}
+
+/**
+ * Raw values of plain signals keyed by ID, as returned by `snapshot()`
+ */
+export type SignalSnapshot = Record<SignalId, unknown>
+
+/**
+ * Called when client code creates a hydrated signal with a different initial value than the server rendered
+ */
+export type HydrationMismatchListener = (id: SignalId, client: unknown, server: unknown) => void
+
 export interface SignalOptions<T> {
 	transform?: Transformer<T> | TransformerChain<T>
+	/** Computed signals only: defer evaluation until the value is read or observed */
+	lazy?: boolean
+	/** How to decide that a new value is unchanged; defaults to `Object.is` */
+	equals?: EqualityOption<T>
+	/** Interceptors run on every write to this signal, after the engine-wide ones */
+	intercept?: UpdateInterceptor<T> | UpdateInterceptor<T>[]
+	/** Standard Schema or validation function checked on every write; issues go to `getIssuesSignalId(id)` */
+	validate?: SignalValidator<T>
+	/** Whether invalid writes are rejected (default) or stored anyway */
+	validationMode?: ValidationMode
+	/** Hydrate the signal from storage and save its raw value on every change; `true` uses localStorage */
+	persist?: boolean | PersistOptions<T>
+	/**
+	 * Remove the signal once nothing uses it: no subscribers, bindings, dependent computed signals or retainers
+	 * `true` waits `DEFAULT_DISPOSE_DELAY` ms before removing it, a number sets the grace period in ms
+	 */
+	autoDispose?: boolean | number
+	/** `false` is shorthand for `autoDispose: true` */
+	keepAlive?: boolean
+	/** Debounce writes (a wait or options) or, through `{ write, notify }`, writes and notifications separately */
+	debounce?: RateLimitOption | RateLimitTargets
+	/** Throttle writes (a wait or options) or, through `{ write, notify }`, writes and notifications separately */
+	throttle?: RateLimitOption | RateLimitTargets
 }
 
+/**
+ * Grace period in ms before an unused `autoDispose` signal is removed
+ * Long enough for a component to remount or for a deferred commit to subscribe
+ */
+export const DEFAULT_DISPOSE_DELAY = 1000
+
 export interface Signal<T = unknown> {
 	value: T
 	rawValue: T
 	bindings: Map<number, SignalBinding>
 	callbacks: Map<number, CallbackFunction<T>>
+	/** Callbacks subscribed with `weak`, which don't keep the signal alive */
+	weakCallbacks?: Set<number>
 	computed: Set<SignalId>
 	computeFn?: ComputeFunction<T> | TypedComputeFunction<T>
 	dependencies?: SignalId[]
+	tracked?: boolean
+	lazy?: boolean
+	dirty?: boolean
 	transformers?: TransformerChain<T>
 	hasTransformers: boolean
 	hasComputed: boolean
+	height: number
+	equals: EqualityFunction<T>
+	interceptors?: UpdateInterceptor<T>[]
+	validator?: (value: T) => ValidationResult<T>
+	validationMode?: ValidationMode
+	persistence?: () => void
+	/** Grace period in ms before removal once unused; undefined keeps the signal alive */
+	disposeDelay?: number
+	disposeTimer?: ReturnType<typeof setTimeout>
+	retainers?: number
+	/** Schedulers of subscribers that opted out of running synchronously, by subscription ID */
+	callbackSchedulers?: Map<number, SchedulerMode>
+	writeLimiter?: RateLimiter
+	/** Latest raw write held back by `writeLimiter` */
+	pendingWrite?: { value: T }
+	notifyLimiter?: RateLimiter
 }
 
 interface ComputedSignal<T> extends Signal<T> {
@@ -33,6 +203,7 @@ export interface SignalBinding {
 	element: HTMLElement
 	fn: BindingFunction
 	condition?: ConditionFunction
+	scheduler?: SchedulerMode
 }
 
 export interface ElementBinding {
@@ -58,19 +229,41 @@ export interface ReactiveEngine {
 		computeFn: ComputeFunction<T> | TypedComputeFunction<T>,
 		options?: SignalOptions<T>
 	): Signal<T>
-	bindElement<T>(element: HTMLElement, signalId: SignalId, bindingFn: BindingFunction<T>): (() => void) | null
+	createTrackedComputed<T>(id: SignalId, computeFn: TrackedComputeFunction<T>, options?: SignalOptions<T>): Signal<T>
+	upsertTrackedComputed<T>(id: SignalId, computeFn: TrackedComputeFunction<T>, options?: SignalOptions<T>): Signal<T>
+	bindElement<T>(
+		element: HTMLElement,
+		signalId: SignalId,
+		bindingFn: BindingFunction<T>,
+		options?: BindingOptions
+	): (() => void) | null
 	bindWhen<T>(
 		element: HTMLElement,
 		signalId: SignalId,
 		condition: ConditionFunction<T>,
-		bindingFn: BindingFunction<T>
+		bindingFn: BindingFunction<T>,
+		options?: BindingOptions
 	): (() => void) | null
-	subscribe<T>(signalId: SignalId, callback: CallbackFunction<T>): (() => void) | null
-	cleanup(signalId: SignalId): void
+	subscribe<T>(signalId: SignalId, callback: CallbackFunction<T>, options?: SubscribeOptions): (() => void) | null
+	retain(signalId: SignalId): (() => void) | null
+	cleanup(signalId: SignalId, options?: RemoveOptions): void
 	batchUpdate(fn: () => void): void
+	getBatchId(): number
+	snapshot(filter?: SignalPattern): SignalSnapshot
+	restore(snapshot: SignalSnapshot): void
+	hydrate(snapshot: SignalSnapshot, onMismatch?: HydrationMismatchListener): void
 	getActiveSignals(): SignalId[]
+	query(pattern: SignalPattern): SignalMatch[]
+	onSignalCreated(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void
+	onSignalRemoved(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void
+	onComputedRegistered(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void
 	recomputeSignal(id: SignalId): void
-	cleanupMatching(pattern: string): void
+	cleanupMatching(pattern: SignalPattern, options?: RemoveOptions): void
+	addInterceptor<T>(interceptor: UpdateInterceptor<T>, signalId?: SignalId): (() => void) | null
+	configure(options: EngineOptions): void
+	getScheduler(): SchedulerMode
+	flush(signalId: SignalId): void
+	cancel(signalId: SignalId): void
 }
 
 declare global {
@@ -84,11 +277,37 @@ class ReactiveEngineImpl implements ReactiveEngine {
 	private bindings = new WeakMap<HTMLElement, ElementBinding>()
 	private bindingCounter = 0
 	private isBatching = false
+	private batchCounter = 0
+	private activeBatchId = 0
 	private batchedUpdates = new Set<SignalId>()
+	private interceptors = new Set<UpdateInterceptor>()
+	private lifecycleListeners: Record<SignalLifecycleEvent, Set<LifecycleSubscription>> = {
+		created: new Set(),
+		removed: new Set(),
+		computed: new Set(),
+	}
+	// Issues signals of validated signals; they belong to their signal, so patterns and lifecycle events skip them
+	private companions = new Set<SignalId>()
+	// Collects the IDs read through getValue while a tracked computed is evaluating
+	private tracking: Set<SignalId> | null = null
+	// Computed signals currently being evaluated, innermost last
+	private evaluating: SignalId[] = []
+	// Server values of hydrated signals that client code has not created yet
+	private hydratedValues = new Map<SignalId, unknown>()
+	private hydrationListener: HydrationMismatchListener | null = null
+	private scheduler: SchedulerMode = "sync"
+	private timing: SchedulerTiming = defaultTiming
+	// Binding and subscription IDs waiting for the next flush, with the signal they belong to
+	private scheduled: Record<Exclude<SchedulerMode, "sync">, Map<number, SignalId>> = {
+		microtask: new Map(),
+		animationFrame: new Map(),
+	}
 
 	private static instance: ReactiveEngineImpl | null = null
 
-	private constructor() {}
+	constructor(options: EngineOptions = {}) {
+		this.configure(options)
+	}
 
 	static getInstance(): ReactiveEngineImpl {
 		if (!ReactiveEngineImpl.instance) {
@@ -123,15 +342,463 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		return [...existing, ...newTransformers]
 	}
 
+	private evaluateComputed<T>(id: SignalId, signal: Signal<T>): T {
+		const index = this.evaluating.indexOf(id)
+		if (index !== -1) {
+			throw new SignalCycleError([...this.evaluating.slice(index), id])
+		}
+
+		const previousTracking = this.tracking
+		const tracked = signal.tracked ? new Set<SignalId>() : null
+		let result: T
+
+		this.evaluating.push(id)
+		this.tracking = tracked
+		// `signal.get` inside the compute function must read this engine, not whichever one is current
+		enterEngineScope(this)
+		try {
+			if (tracked) {
+				result = (signal.computeFn as TrackedComputeFunction<T>)()
+			} else {
+				const depValues = (signal.dependencies ?? []).map((depId) => this.readValue(depId))
+				result = (signal.computeFn as ComputeFunction<T>)(...depValues)
+			}
+		} finally {
+			exitEngineScope()
+			this.tracking = previousTracking
+			this.evaluating.pop()
+		}
+
+		if (tracked) {
+			const dependencies = Array.from(tracked)
+			const previous = signal.dependencies ?? []
+			const cycle = this.findCycle(
+				id,
+				dependencies.filter((depId) => !previous.includes(depId))
+			)
+			if (cycle) {
+				throw new SignalCycleError(cycle)
+			}
+			this.setDependencies(id, signal as Signal<unknown>, dependencies)
+		}
+
+		return result
+	}
+
+	/**
+	 * Walk the dependency graph from the given dependencies and return the path
+	 * back to `id` if depending on them would close a loop
+	 */
+	private findCycle(id: SignalId, dependencies: SignalId[]): SignalId[] | null {
+		const visited = new Set<SignalId>()
+
+		const visit = (current: SignalId, path: SignalId[]): SignalId[] | null => {
+			if (current === id) return [...path, current]
+			if (visited.has(current)) return null
+			visited.add(current)
+
+			for (const depId of this.signals.get(current)?.dependencies ?? []) {
+				const cycle = visit(depId, [...path, current])
+				if (cycle) return cycle
+			}
+			return null
+		}
+
+		for (const depId of dependencies) {
+			const cycle = visit(depId, [id])
+			if (cycle) return cycle
+		}
+		return null
+	}
+
+	private setDependencies(id: SignalId, signal: Signal<unknown>, dependencies: SignalId[]): void {
+		const previous = signal.dependencies ?? []
+
+		for (const depId of previous) {
+			if (dependencies.includes(depId)) continue
+			const depSignal = this.signals.get(depId)
+			if (depSignal) {
+				depSignal.computed.delete(id)
+				depSignal.hasComputed = depSignal.computed.size > 0
+				this.scheduleDispose(depId, depSignal)
+			}
+		}
+
+		for (const depId of dependencies) {
+			const depSignal = this.signals.get(depId)
+			if (depSignal) {
+				depSignal.computed.add(id)
+				depSignal.hasComputed = true
+				this.cancelDispose(depSignal)
+			}
+		}
+
+		signal.dependencies = dependencies
+		this.updateHeight(id, signal)
+	}
+
+	/**
+	 * Keep a computed signal strictly higher than every dependency, so that
+	 * propagation can process the graph level by level
+	 */
+	private updateHeight(id: SignalId, signal: Signal<unknown>, path: SignalId[] = [id]): void {
+		let height = 0
+		for (const depId of signal.dependencies ?? []) {
+			const depSignal = this.signals.get(depId)
+			if (depSignal && depSignal.height >= height) {
+				height = depSignal.height + 1
+			}
+		}
+
+		if (height <= signal.height) return
+		signal.height = height
+
+		for (const computedId of signal.computed) {
+			const computedSignal = this.signals.get(computedId)
+			if (computedSignal && computedSignal.height <= height) {
+				const index = path.indexOf(computedId)
+				if (index !== -1) {
+					throw new SignalCycleError([...path.slice(index), computedId])
+				}
+				this.updateHeight(computedId, computedSignal, [...path, computedId])
+			}
+		}
+	}
+
+	private readValue(id: SignalId): unknown {
+		const signal = this.signals.get(id)
+		if (signal?.dirty) {
+			this.refreshComputed(id, signal)
+		}
+		return signal?.value
+	}
+
+	private refreshComputed(id: SignalId, signal: Signal<unknown>): void {
+		const value = this.evaluateComputed(id, signal)
+		signal.dirty = false
+		this.writeValue(signal, value)
+	}
+
+	private isObserved(signal: Signal<unknown>): boolean {
+		return signal.callbacks.size > 0 || signal.bindings.size > 0
+	}
+
+	private isInUse(signal: Signal<unknown>): boolean {
+		return (
+			signal.callbacks.size > (signal.weakCallbacks?.size ?? 0) ||
+			signal.bindings.size > 0 ||
+			signal.computed.size > 0 ||
+			!!signal.retainers
+		)
+	}
+
+	private setAutoDispose<T>(id: SignalId, signal: Signal<T>, options: SignalOptions<T>): void {
+		const { autoDispose = options.keepAlive === false } = options
+		if (autoDispose === false) {
+			this.cancelDispose(signal as Signal<unknown>)
+			signal.disposeDelay = undefined
+			return
+		}
+
+		signal.disposeDelay = autoDispose === true ? DEFAULT_DISPOSE_DELAY : autoDispose
+		this.scheduleDispose(id, signal as Signal<unknown>)
+	}
+
+	/**
+	 * Start the grace period of an unused `autoDispose` signal
+	 * Called whenever one of its uses goes away, and on creation so that signals nobody picks up are removed too
+	 */
+	private scheduleDispose(id: SignalId, signal: Signal<unknown>): void {
+		if (signal.disposeDelay === undefined || signal.disposeTimer !== undefined || this.isInUse(signal)) return
+
+		signal.disposeTimer = setTimeout(() => {
+			signal.disposeTimer = undefined
+			if (this.signals.get(id) === signal && !this.isInUse(signal)) {
+				this.cleanup(id)
+			}
+		}, signal.disposeDelay)
+	}
+
+	private cancelDispose(signal: Signal<unknown>): void {
+		if (signal.disposeTimer === undefined) return
+		clearTimeout(signal.disposeTimer)
+		signal.disposeTimer = undefined
+	}
+
+	private setRateLimits<T>(id: SignalId, signal: Signal<T>, options: SignalOptions<T>): void {
+		const debounce = resolveRateLimitTargets(options.debounce)
+		const throttle = resolveRateLimitTargets(options.throttle)
+
+		for (const target of ["write", "notify"] as const) {
+			if (debounce[target] !== undefined && throttle[target] !== undefined) {
+				throw new TypeError(`Signal "${id}" cannot both debounce and throttle its ${target}s`)
+			}
+		}
+
+		const write = debounce.write ?? throttle.write
+		// Computed signals are never written to, so only their notifications can be limited
+		if (write !== undefined && !signal.computeFn) {
+			signal.writeLimiter = createRateLimiter(debounce.write !== undefined ? "debounce" : "throttle", write, () => {
+				const pending = signal.pendingWrite
+				signal.pendingWrite = undefined
+				if (pending && this.signals.get(id) === signal) {
+					this.applyUpdate(id, signal, pending.value)
+				}
+			})
+		}
+
+		const notify = debounce.notify ?? throttle.notify
+		if (notify !== undefined) {
+			signal.notifyLimiter = createRateLimiter(debounce.notify !== undefined ? "debounce" : "throttle", notify, () => {
+				if (this.signals.get(id) === signal) {
+					this.notify(id, signal as Signal<unknown>)
+				}
+			})
+		}
+	}
+
+	private normalizeInterceptors<T>(
+		intercept: UpdateInterceptor<T> | UpdateInterceptor<T>[] | undefined
+	): UpdateInterceptor<T>[] | undefined {
+		return intercept ? (Array.isArray(intercept) ? intercept : [intercept]) : undefined
+	}
+
+	private runInterceptors<T>(id: SignalId, signal: Signal<T>, value: T): T | typeof CANCEL_UPDATE {
+		let next = value
+
+		for (const interceptor of this.interceptors) {
+			const result = interceptor({ id, prev: signal.rawValue, next })
+			if (result === CANCEL_UPDATE) return CANCEL_UPDATE
+			next = result as T
+		}
+
+		if (signal.interceptors) {
+			for (const interceptor of signal.interceptors) {
+				const result = interceptor({ id, prev: signal.rawValue, next })
+				if (result === CANCEL_UPDATE) return CANCEL_UPDATE
+				next = result
+			}
+		}
+
+		return next
+	}
+
+	private runValidator<T>(id: SignalId, signal: Signal<T>, value: T): T | typeof CANCEL_UPDATE {
+		const result = (signal.validator as (value: T) => ValidationResult<T>)(value)
+		this.updateSignal(getIssuesSignalId(id), result.issues)
+
+		if (!result.issues) return result.value
+		return signal.validationMode === "store" ? value : CANCEL_UPDATE
+	}
+
+	private setValidator<T>(id: SignalId, signal: Signal<T>, options: SignalOptions<T>): void {
+		signal.validator = normalizeValidator(options.validate as SignalValidator<T>)
+		signal.validationMode = options.validationMode ?? "reject"
+
+		const { issues } = signal.validator(signal.rawValue)
+		const issuesId = getIssuesSignalId(id)
+		this.companions.add(issuesId)
+		if (this.signals.has(issuesId)) {
+			this.updateSignal(issuesId, issues)
+		} else {
+			this.createSignal(issuesId, issues)
+		}
+	}
+
+	private writeValue<T>(signal: Signal<T>, value: T): boolean {
+		const newValue = signal.hasTransformers ? this.applyTransformers(value, signal.transformers ?? []) : value
+		if (Object.is(signal.value, newValue)) return false
+
+		// Custom comparisons only ever see two real values, never a missing one
+		if (
+			signal.equals !== Object.is &&
+			signal.value !== undefined &&
+			newValue !== undefined &&
+			signal.equals(signal.value, newValue)
+		) {
+			return false
+		}
+
+		signal.rawValue = value
+		signal.value = newValue
+		return true
+	}
+
+	/**
+	 * Recompute everything downstream of the changed signals in height order,
+	 * so each computed runs once and only after all of its dependencies settled.
+	 * Subscribers and bindings are notified once the whole graph is consistent.
+	 */
+	private propagate(sources: Iterable<SignalId>): void {
+		const changed = new Set<SignalId>(sources)
+		const queue: SignalId[][] = []
+		const pending = new Set<SignalId>()
+
+		const enqueue = (id: SignalId, height: number) => {
+			pending.add(id)
+			const bucket = queue[height]
+			if (bucket) {
+				bucket.push(id)
+			} else {
+				queue[height] = [id]
+			}
+		}
+
+		const enqueueDependents = (id: SignalId) => {
+			const signal = this.signals.get(id)
+			if (!signal?.hasComputed) return
+			for (const computedId of signal.computed) {
+				const computedSignal = this.signals.get(computedId)
+				if (computedSignal && !pending.has(computedId)) {
+					enqueue(computedId, computedSignal.height)
+				}
+			}
+		}
+
+		for (const id of changed) {
+			enqueueDependents(id)
+		}
+
+		for (let height = 0; height < queue.length; height++) {
+			const bucket = queue[height]
+			if (!bucket) continue
+
+			for (let i = 0; i < bucket.length; i++) {
+				const id = bucket[i]
+				const signal = this.signals.get(id)
+				if (!signal?.computeFn) {
+					pending.delete(id)
+					continue
+				}
+
+				// A tracked computed may have picked up deeper dependencies during this pass
+				if (signal.height > height) {
+					enqueue(id, signal.height)
+					continue
+				}
+
+				pending.delete(id)
+
+				// Nobody is looking at a lazy computed, so only remember that it is stale.
+				// Dependents still run and pull the fresh value through readValue.
+				if (signal.lazy && !this.isObserved(signal)) {
+					signal.dirty = true
+					enqueueDependents(id)
+					continue
+				}
+
+				const hasChanged = this.writeValue(signal, this.evaluateComputed(id, signal))
+
+				if (signal.height > height) {
+					enqueue(id, signal.height)
+				}
+
+				if (hasChanged) {
+					changed.add(id)
+					enqueueDependents(id)
+				}
+			}
+		}
+
+		for (const id of changed) {
+			this.executeDOMUpdates(id)
+		}
+	}
+
+	private registerComputed<T>(
+		id: SignalId,
+		computeFn: ComputeFunction<T> | TypedComputeFunction<T> | TrackedComputeFunction<T>,
+		dependencies: SignalId[],
+		tracked: boolean,
+		options?: SignalOptions<T>
+	): Signal<T> {
+		const cycle = this.findCycle(id, dependencies)
+		if (cycle) {
+			throw new SignalCycleError(cycle)
+		}
+
+		let transformers: TransformerChain<T> | undefined
+		let hasTransformers = false
+
+		if (options?.transform) {
+			transformers = this.normalizeTransformers(options.transform)
+			hasTransformers = true
+		}
+
+		const signal: Signal<T> = {
+			value: undefined as T,
+			rawValue: undefined as T,
+			bindings: new Map(),
+			callbacks: new Map(),
+			computed: new Set(),
+			transformers,
+			hasTransformers,
+			hasComputed: false,
+			height: 0,
+			equals: resolveEquality(options?.equals),
+			computeFn,
+			dependencies: [],
+			tracked,
+			lazy: !!options?.lazy,
+			dirty: !!options?.lazy,
+		}
+
+		this.signals.set(id, signal as Signal<unknown>)
+
+		if (options?.debounce !== undefined || options?.throttle !== undefined) {
+			this.setRateLimits(id, signal, options)
+		}
+
+		if (!tracked) {
+			this.setDependencies(id, signal as Signal<unknown>, dependencies)
+		}
+
+		if (signal.lazy) {
+			this.setAutoDispose(id, signal, options ?? {})
+			this.emitComputedRegistered(id)
+			return signal
+		}
+
+		let initialValue: T
+		try {
+			initialValue = this.evaluateComputed(id, signal)
+		} catch (error) {
+			// Leave no half-registered computed behind in the graph
+			this.setDependencies(id, signal as Signal<unknown>, [])
+			this.signals.delete(id)
+			throw error
+		}
+
+		signal.rawValue = initialValue
+		signal.value = hasTransformers ? this.applyTransformers(initialValue, transformers ?? []) : initialValue
+
+		this.setAutoDispose(id, signal, options ?? {})
+		this.emitComputedRegistered(id)
+		return signal
+	}
+
+	private emitComputedRegistered(id: SignalId): void {
+		this.emitLifecycle("created", id)
+		this.emitLifecycle("computed", id)
+	}
+
 	private executeDOMUpdates(signalId: SignalId): void {
 		const signal = this.signals.get(signalId)
 		if (!signal) return
 
+		if (signal.notifyLimiter) {
+			signal.notifyLimiter.call()
+			return
+		}
+		this.notify(signalId, signal)
+	}
+
+	private notify(signalId: SignalId, signal: Signal<unknown>): void {
 		const value = signal.value
 		const callbacksSize = signal.callbacks.size
 		const bindingsSize = signal.bindings.size
 
-		if (bindingsSize === 0 && callbacksSize > 0) {
+		if (bindingsSize === 0 && callbacksSize > 0 && !signal.callbackSchedulers) {
 			if (callbacksSize === 1) {
 				const callback = signal.callbacks.values().next().value
 				callback?.(value)
@@ -144,71 +811,117 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		}
 
 		if (bindingsSize > 0) {
-			for (const binding of signal.bindings.values()) {
-				if (binding.element?.isConnected) {
-					if (binding.condition) {
-						binding.condition(value) && binding.fn(binding.element, value)
-					} else {
-						binding.fn(binding.element, value)
-					}
+			for (const [bindingId, binding] of signal.bindings) {
+				const scheduler = binding.scheduler ?? this.scheduler
+				if (scheduler === "sync") {
+					this.runBinding(binding, value)
+				} else {
+					this.schedule(scheduler, bindingId, signalId)
 				}
 			}
 		}
 
 		if (callbacksSize > 0) {
-			for (const callback of signal.callbacks.values()) {
-				callback(value)
+			for (const [callbackId, callback] of signal.callbacks) {
+				const scheduler = signal.callbackSchedulers?.get(callbackId) ?? "sync"
+				if (scheduler === "sync") {
+					callback(value)
+				} else {
+					this.schedule(scheduler, callbackId, signalId)
+				}
 			}
 		}
 	}
 
-	private flushBatchedUpdates(): void {
-		if (this.batchedUpdates.size === 0) return
+	private runBinding(binding: SignalBinding, value: unknown): void {
+		if (!binding.element?.isConnected) return
+		if (binding.condition) {
+			binding.condition(value) && binding.fn(binding.element, value)
+		} else {
+			binding.fn(binding.element, value)
+		}
+	}
 
-		const updatedSignals = Array.from(this.batchedUpdates)
-		this.batchedUpdates.clear()
+	/**
+	 * Queue a binding or subscriber for the next flush of `scheduler`
+	 * Queueing the same one again before the flush is a no-op, so it runs once with the latest value
+	 */
+	private schedule(scheduler: Exclude<SchedulerMode, "sync">, id: number, signalId: SignalId): void {
+		const queue = this.scheduled[scheduler]
+		if (queue.size === 0) {
+			this.timing[scheduler](() => this.flushScheduled(scheduler))
+		}
+		queue.set(id, signalId)
+	}
 
-		let hasComputedSignals = false
-		const computedSignals = new Set<SignalId>()
+	private flushScheduled(scheduler: Exclude<SchedulerMode, "sync">): void {
+		const queue = this.scheduled[scheduler]
+		// Updates triggered while flushing wait for the next tick
+		this.scheduled[scheduler] = new Map()
 
-		for (let i = 0; i < updatedSignals.length; i++) {
-			const signalId = updatedSignals[i]
+		for (const [id, signalId] of queue) {
+			// Skip bindings and subscribers removed since they were queued
 			const signal = this.signals.get(signalId)
-			if (signal?.hasComputed) {
-				hasComputedSignals = true
-				for (const computedId of signal.computed) {
-					computedSignals.add(computedId)
-				}
+			if (!signal) continue
+
+			const binding = signal.bindings.get(id)
+			if (binding) {
+				this.runBinding(binding, signal.value)
+				continue
 			}
+			signal.callbacks.get(id)?.(signal.value)
 		}
+	}
 
-		if (hasComputedSignals) {
-			for (const computedId of computedSignals) {
-				const signal = this.signals.get(computedId)
-				if (signal?.computeFn && signal.dependencies) {
-					const depValues = signal.dependencies.map((depId) => this.signals.get(depId)?.value)
-					const newValue = signal.computeFn(...depValues)
-					if (signal.value !== newValue) {
-						signal.value = newValue
-						updatedSignals.push(computedId)
-					}
-				}
+	private emitLifecycle(event: SignalLifecycleEvent, id: SignalId): void {
+		const subscriptions = this.lifecycleListeners[event]
+		if (subscriptions.size === 0 || this.companions.has(id)) return
+
+		// Copied so listeners can subscribe or unsubscribe while being notified
+		for (const { listener, pattern } of Array.from(subscriptions)) {
+			if (pattern === undefined || matchesPattern(id, pattern)) {
+				listener(id)
 			}
 		}
+	}
 
-		for (const signalId of updatedSignals) {
-			this.executeDOMUpdates(signalId)
+	private addLifecycleListener(
+		event: SignalLifecycleEvent,
+		listener: SignalLifecycleListener,
+		pattern?: SignalPattern
+	): () => void {
+		const subscription: LifecycleSubscription = { listener, pattern }
+		this.lifecycleListeners[event].add(subscription)
+		return () => {
+			this.lifecycleListeners[event].delete(subscription)
 		}
 	}
 
-	private matchesPattern(signalId: SignalId, pattern: string): boolean {
-		// Simple prefix matching for now - can be enhanced
-		return signalId.startsWith(pattern)
+	private flushBatchedUpdates(): void {
+		if (this.batchedUpdates.size === 0) return
+
+		// Writes made by subscribers while flushing are collected into another round,
+		// so each round settles the whole computed chain before notifying anyone
+		this.isBatching = true
+		try {
+			while (this.batchedUpdates.size > 0) {
+				const updatedSignals = Array.from(this.batchedUpdates)
+				this.batchedUpdates.clear()
+
+				this.propagate(updatedSignals)
+			}
+		} finally {
+			this.isBatching = false
+		}
 	}
 
 	createSignal<T>(id: SignalId, initialValue: T, options?: SignalOptions<T>): Signal<T> {
-		if (this.signals.has(id)) {
-			return this.signals.get(id) as Signal<T>
+		const existingSignal = this.signals.get(id)
+		if (existingSignal) {
+			if (this.hydratedValues.has(id)) {
+				return this.adoptHydratedSignal(id, initialValue, options)
+			}
+			return existingSignal as Signal<T>
 		}
 
 		let finalValue: T
@@ -232,41 +945,104 @@ class ReactiveEngineImpl implements ReactiveEngine {
 			transformers,
 			hasTransformers,
 			hasComputed: false,
+			height: 0,
+			equals: resolveEquality(options?.equals),
+			interceptors: this.normalizeInterceptors(options?.intercept),
 		}
 
 		this.signals.set(id, signal as Signal<unknown>)
+
+		if (options?.validate) {
+			this.setValidator(id, signal, options)
+		}
+		if (options?.persist) {
+			signal.persistence = persistSignal(this, id, options.persist === true ? {} : options.persist)
+		}
+		if (options?.debounce !== undefined || options?.throttle !== undefined) {
+			this.setRateLimits(id, signal, options)
+		}
+		if (options) {
+			this.setAutoDispose(id, signal, options)
+		}
+
+		this.emitLifecycle("created", id)
 		return signal
 	}
 
 	upsertSignal<T>(id: SignalId, initialValue: T, options?: SignalOptions<T>): Signal<T> {
 		const existingSignal = this.signals.get(id)
 		if (existingSignal) {
+			if (this.hydratedValues.has(id)) {
+				return this.adoptHydratedSignal(id, initialValue, options)
+			}
 			if (options?.transform) {
 				const newTransformers = this.normalizeTransformers(options.transform)
 				const mergedTransformers = this.mergeTransformers((existingSignal as Signal<T>).transformers, newTransformers)
 				;(existingSignal as Signal<T>).transformers = mergedTransformers
 				;(existingSignal as Signal<T>).hasTransformers = !!mergedTransformers
 			}
+			if (options?.equals) {
+				;(existingSignal as Signal<T>).equals = resolveEquality(options.equals)
+			}
+			if (options?.intercept) {
+				const newInterceptors = this.normalizeInterceptors(options.intercept) ?? []
+				;(existingSignal as Signal<T>).interceptors = [
+					...((existingSignal as Signal<T>).interceptors ?? []),
+					...newInterceptors,
+				]
+			}
+			if (options?.validate) {
+				this.setValidator(id, existingSignal as Signal<T>, options)
+			}
+			if (options?.persist && !existingSignal.persistence) {
+				existingSignal.persistence = persistSignal(this, id, options.persist === true ? {} : options.persist)
+			}
+			if (options?.autoDispose !== undefined || options?.keepAlive !== undefined) {
+				this.setAutoDispose(id, existingSignal as Signal<T>, options)
+			}
+			// Hooks upsert on every render; keep the limiters, and whatever they hold back, of the first one
+			if (
+				(options?.debounce !== undefined || options?.throttle !== undefined) &&
+				!existingSignal.writeLimiter &&
+				!existingSignal.notifyLimiter
+			) {
+				this.setRateLimits(id, existingSignal as Signal<T>, options)
+			}
 			return existingSignal as Signal<T>
 		}
 
 		return this.createSignal(id, initialValue, options)
 	}
 
-	bindElement<T>(element: HTMLElement, signalId: SignalId, bindingFn: BindingFunction<T>): (() => void) | null {
+	bindElement<T>(
+		element: HTMLElement,
+		signalId: SignalId,
+		bindingFn: BindingFunction<T>,
+		options?: BindingOptions
+	): (() => void) | null {
 		const signal = this.signals.get(signalId)
 		if (!signal || !element) return null
 
 		const bindingId = ++this.bindingCounter
 
-		signal.bindings.set(bindingId, { element, fn: bindingFn as BindingFunction<unknown> })
+		signal.bindings.set(bindingId, {
+			element,
+			fn: bindingFn as BindingFunction<unknown>,
+			scheduler: options?.scheduler,
+		})
 		this.bindings.set(element, { signalId, bindingId })
+		this.cancelDispose(signal)
+
+		if (signal.dirty) {
+			this.refreshComputed(signalId, signal)
+		}
 
 		bindingFn(element, signal.value as T)
 
 		return () => {
 			signal.bindings.delete(bindingId)
 			this.bindings.delete(element)
+			this.scheduleDispose(signalId, signal)
 		}
 	}
 
@@ -274,7 +1050,8 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		element: HTMLElement,
 		signalId: SignalId,
 		condition: ConditionFunction<T>,
-		bindingFn: BindingFunction<T>
+		bindingFn: BindingFunction<T>,
+		options?: BindingOptions
 	): (() => void) | null {
 		const signal = this.signals.get(signalId)
 		if (!signal || !element) return null
@@ -285,8 +1062,14 @@ class ReactiveEngineImpl implements ReactiveEngine {
 			element,
 			fn: bindingFn as BindingFunction<unknown>,
 			condition: condition as ConditionFunction<unknown>,
+			scheduler: options?.scheduler,
 		})
 		this.bindings.set(element, { signalId, bindingId })
+		this.cancelDispose(signal)
+
+		if (signal.dirty) {
+			this.refreshComputed(signalId, signal)
+		}
 
 		if (condition(signal.value as T)) {
 			bindingFn(element, signal.value as T)
@@ -294,82 +1077,115 @@ class ReactiveEngineImpl implements ReactiveEngine {
 
 		return () => {
 			signal.bindings.delete(bindingId)
+			this.scheduleDispose(signalId, signal)
 		}
 	}
 
-	subscribe<T>(signalId: SignalId, callback: CallbackFunction<T>): (() => void) | null {
+	subscribe<T>(signalId: SignalId, callback: CallbackFunction<T>, options?: SubscribeOptions): (() => void) | null {
 		const signal = this.signals.get(signalId)
 		if (!signal) return null
 
 		const callbackId = ++this.bindingCounter
 		signal.callbacks.set(callbackId, callback as CallbackFunction<unknown>)
+		if (options?.scheduler && options.scheduler !== "sync") {
+			signal.callbackSchedulers ??= new Map()
+			signal.callbackSchedulers.set(callbackId, options.scheduler)
+		}
+		if (options?.weak) {
+			signal.weakCallbacks ??= new Set()
+			signal.weakCallbacks.add(callbackId)
+		} else {
+			this.cancelDispose(signal)
+		}
+
+		if (signal.dirty) {
+			this.refreshComputed(signalId, signal)
+		}
 
 		return () => {
 			signal.callbacks.delete(callbackId)
+			if (signal.callbackSchedulers?.delete(callbackId) && signal.callbackSchedulers.size === 0) {
+				signal.callbackSchedulers = undefined
+			}
+			if (signal.weakCallbacks?.delete(callbackId) && signal.weakCallbacks.size === 0) {
+				signal.weakCallbacks = undefined
+			}
+			this.scheduleDispose(signalId, signal)
 		}
 	}
 
-	updateSignal<T>(id: SignalId, value: T): void {
-		const signal = this.signals.get(id)
-		if (!signal) return
+	retain(signalId: SignalId): (() => void) | null {
+		const signal = this.signals.get(signalId)
+		if (!signal) return null
 
-		if (!signal.hasTransformers) {
-			if (Object.is(signal.value, value)) return
+		signal.retainers = (signal.retainers ?? 0) + 1
+		this.cancelDispose(signal)
 
-			signal.rawValue = value
-			signal.value = value
+		let released = false
+		return () => {
+			if (released) return
+			released = true
+			signal.retainers = (signal.retainers ?? 1) - 1
+			this.scheduleDispose(signalId, signal)
+		}
+	}
 
-			if (this.isBatching) {
-				this.batchedUpdates.add(id)
-				return
-			}
+	updateSignal<T>(id: SignalId, value: T): void {
+		const signal = this.signals.get(id) as Signal<T> | undefined
+		if (!signal) return
 
-			const callbacksSize = signal.callbacks.size
-			if (callbacksSize > 0 && signal.bindings.size === 0 && !signal.hasComputed) {
-				if (callbacksSize === 1) {
-					const callback = signal.callbacks.values().next().value
-					callback?.(value)
-				} else {
-					for (const callback of signal.callbacks.values()) {
-						callback(value)
-					}
-				}
-				return
-			}
+		if (signal.writeLimiter) {
+			signal.pendingWrite = { value }
+			signal.writeLimiter.call()
+			return
+		}
+		this.applyUpdate(id, signal, value)
+	}
 
-			this.executeDOMUpdates(id)
-			if (signal.hasComputed) {
-				for (const computedId of signal.computed) {
-					this.recomputeSignal(computedId)
-				}
-			}
+	private applyUpdate<T>(id: SignalId, signal: Signal<T>, value: T): void {
+		if (this.interceptors.size === 0 && !signal.interceptors && !signal.validator) {
+			this.commitValue(id, signal, value)
 			return
 		}
 
-		const newValue = this.applyTransformers(value, signal.transformers ?? [])
-		if (Object.is(signal.value, newValue)) return
+		let next: T | typeof CANCEL_UPDATE = value
+		if (this.interceptors.size > 0 || signal.interceptors) {
+			next = this.runInterceptors(id, signal, next)
+		}
+		if (next !== CANCEL_UPDATE && signal.validator) {
+			next = this.runValidator(id, signal, next)
+		}
+		if (next !== CANCEL_UPDATE) {
+			this.commitValue(id, signal, next)
+		}
+	}
 
-		signal.rawValue = value
-		signal.value = newValue
+	private commitValue<T>(id: SignalId, signal: Signal<T>, value: T): void {
+		if (!this.writeValue(signal, value)) return
 
 		if (this.isBatching) {
 			this.batchedUpdates.add(id)
-		} else {
+			return
+		}
+
+		if (!signal.hasComputed) {
 			this.executeDOMUpdates(id)
-			if (signal.hasComputed) {
-				for (const computedId of signal.computed) {
-					this.recomputeSignal(computedId)
-				}
-			}
+			return
 		}
+
+		this.propagate([id])
 	}
 
 	getValue<T>(id: SignalId): T | undefined {
-		return this.signals.get(id)?.value as T
+		this.tracking?.add(id)
+		return this.readValue(id) as T
 	}
 
 	getRawValue<T>(id: SignalId): T | undefined {
-		return this.signals.get(id)?.rawValue as T
+		this.readValue(id)
+		const signal = this.signals.get(id)
+		// Writes held back by a debounce or throttle are readable before they land
+		return (signal?.pendingWrite ? signal.pendingWrite.value : signal?.rawValue) as T
 	}
 
 	createComputed<T>(
@@ -382,44 +1198,7 @@ class ReactiveEngineImpl implements ReactiveEngine {
 			return this.signals.get(id) as Signal<T>
 		}
 
-		const initialValue = computeFn(...dependencies.map((depId) => this.getValue(depId)))
-
-		let finalValue: T
-		let transformers: TransformerChain<T> | undefined
-		let hasTransformers = false
-
-		if (options?.transform) {
-			transformers = this.normalizeTransformers(options.transform)
-			hasTransformers = true
-			finalValue = this.applyTransformers(initialValue, transformers ?? [])
-		} else {
-			finalValue = initialValue
-		}
-
-		const signal: Signal<T> = {
-			value: finalValue,
-			rawValue: initialValue,
-			bindings: new Map(),
-			callbacks: new Map(),
-			computed: new Set(),
-			transformers,
-			hasTransformers,
-			hasComputed: false,
-			computeFn,
-			dependencies,
-		}
-
-		this.signals.set(id, signal as Signal<unknown>)
-
-		for (const depId of dependencies) {
-			const depSignal = this.signals.get(depId)
-			if (depSignal) {
-				depSignal.computed.add(id)
-				depSignal.hasComputed = true
-			}
-		}
-
-		return signal
+		return this.registerComputed(id, computeFn, dependencies, false, options)
 	}
 
 	upsertComputed<T>(
@@ -436,10 +1215,38 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		return this.createComputed(id, dependencies, computeFn, options)
 	}
 
+	createTrackedComputed<T>(id: SignalId, computeFn: TrackedComputeFunction<T>, options?: SignalOptions<T>): Signal<T> {
+		if (this.signals.has(id)) {
+			return this.signals.get(id) as Signal<T>
+		}
+
+		return this.registerComputed(id, computeFn, [], true, options)
+	}
+
+	upsertTrackedComputed<T>(id: SignalId, computeFn: TrackedComputeFunction<T>, options?: SignalOptions<T>): Signal<T> {
+		const existingSignal = this.signals.get(id)
+		if (existingSignal) {
+			return existingSignal as Signal<T>
+		}
+
+		return this.createTrackedComputed(id, computeFn, options)
+	}
+
 	recomputeSignal(id: SignalId): void {
 		const signal = this.signals.get(id) as ComputedSignal<unknown>
 		if (!signal?.computeFn || !signal.dependencies) return
 
+		if (signal.dirty) {
+			this.refreshComputed(id, signal)
+			return
+		}
+
+		// Tracked dependencies can change between runs, so there is no stable cache to compare against
+		if (signal.tracked) {
+			this.commitValue(id, signal, this.evaluateComputed(id, signal))
+			return
+		}
+
 		const depsLength = signal.dependencies.length
 
 		if (!signal.depCache || signal.depCache.length !== depsLength) {
@@ -451,16 +1258,16 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		let hasChanged = false
 
 		for (let i = 0; i < depsLength; i++) {
-			const newVal = this.signals.get(dependencies[i])?.value
+			const newVal = this.readValue(dependencies[i])
 			if (!Object.is(deps[i], newVal)) {
 				deps[i] = newVal
 				hasChanged = true
 			}
 		}
 
+		// The cache only decides whether to run; evaluating goes through the engine scope and cycle guard
 		if (hasChanged) {
-			const newValue = signal.computeFn(...deps)
-			this.updateSignal(id, newValue)
+			this.commitValue(id, signal, this.evaluateComputed(id, signal))
 		}
 	}
 
@@ -471,40 +1278,298 @@ class ReactiveEngineImpl implements ReactiveEngine {
 		}
 
 		this.isBatching = true
+		this.activeBatchId = ++this.batchCounter
 		try {
 			fn()
 		} finally {
 			this.isBatching = false
-			this.flushBatchedUpdates()
+			try {
+				this.flushBatchedUpdates()
+			} finally {
+				this.activeBatchId = 0
+			}
+		}
+	}
+
+	/**
+	 * ID of the batch currently running or being flushed, or 0 outside of batches
+	 * Subscribers can use it to group the notifications caused by one batch
+	 */
+	getBatchId(): number {
+		return this.activeBatchId
+	}
+
+	snapshot(filter?: SignalPattern): SignalSnapshot {
+		const snapshot: SignalSnapshot = {}
+		for (const [id, signal] of this.signals) {
+			// Computed values are derived, so restoring their inputs is enough
+			if (signal.computeFn || this.companions.has(id)) continue
+			if (filter !== undefined && !matchesPattern(id, filter)) continue
+			snapshot[id] = signal.rawValue
+		}
+		return snapshot
+	}
+
+	restore(snapshot: SignalSnapshot): void {
+		this.batchUpdate(() => {
+			for (const [id, value] of Object.entries(snapshot)) {
+				const signal = this.signals.get(id)
+				if (!signal) {
+					this.createSignal(id, value)
+				} else if (!signal.computeFn) {
+					// A write still held back by the limiter would land later and overwrite the restored value
+					signal.writeLimiter?.cancel()
+					signal.pendingWrite = undefined
+					// Same path as any other write, so interceptors and validators still have their say
+					this.applyUpdate(id, signal, value)
+				}
+			}
+
+			const computedIds = Array.from(this.signals.keys()).filter((id) => this.signals.get(id)?.computeFn)
+			computedIds.sort((a, b) => (this.signals.get(a)?.height ?? 0) - (this.signals.get(b)?.height ?? 0))
+			for (const id of computedIds) {
+				const signal = this.signals.get(id)
+				// Nobody is looking at a lazy computed, so leave it to the next read
+				if (signal?.lazy && !this.isObserved(signal)) {
+					signal.dirty = true
+					continue
+				}
+				this.recomputeSignal(id)
+			}
+		})
+	}
+
+	hydrate(snapshot: SignalSnapshot, onMismatch?: HydrationMismatchListener): void {
+		this.hydrationListener = onMismatch ?? null
+
+		for (const [id, value] of Object.entries(snapshot)) {
+			if (!this.signals.has(id)) {
+				// Created bare below so it can be read right away; client code creating it later brings the options
+				this.hydratedValues.set(id, value)
+				continue
+			}
+
+			const clientValue = this.getRawValue(id)
+			if (!deepEqual(clientValue, value)) {
+				onMismatch?.(id, clientValue, value)
+			}
+		}
+		this.restore(snapshot)
+	}
+
+	/**
+	 * Apply the options of the first client code creating a signal `hydrate` created bare
+	 * The server value is kept and run through them, as if the signal had been created with it
+	 */
+	private adoptHydratedSignal<T>(id: SignalId, initialValue: T, options?: SignalOptions<T>): Signal<T> {
+		const serverValue = this.hydratedValues.get(id)
+		this.hydratedValues.delete(id)
+		if (!deepEqual(initialValue, serverValue)) {
+			this.hydrationListener?.(id, initialValue, serverValue)
+		}
+
+		const signal = this.upsertSignal(id, initialValue, options)
+		// The bare signal holds the server value untransformed
+		if (signal.hasTransformers) {
+			this.commitValue(id, signal, signal.rawValue)
+		}
+		return signal
+	}
+
+	/**
+	 * Computed signals that depend on a signal
+	 * A validated signal takes its issues signal along, so dependents of that count too
+	 */
+	private findDependents(signalId: SignalId): SignalId[] {
+		const removed = [signalId]
+		if (this.signals.get(signalId)?.validator) {
+			removed.push(getIssuesSignalId(signalId))
+		}
+
+		const dependents = new Set<SignalId>()
+		for (const id of removed) {
+			for (const computedId of this.signals.get(id)?.computed ?? []) {
+				if (this.signals.has(computedId)) {
+					dependents.add(computedId)
+				}
+			}
+		}
+		return Array.from(dependents)
+	}
+
+	/**
+	 * Turn a computed signal into a plain one holding its current value
+	 */
+	private freezeComputed(id: SignalId, signal: Signal<unknown>): void {
+		if (signal.dirty) {
+			this.refreshComputed(id, signal)
 		}
+		this.setDependencies(id, signal, [])
+		signal.computeFn = undefined
+		signal.dependencies = undefined
+		signal.tracked = undefined
+		signal.lazy = undefined
+		signal.dirty = undefined
 	}
 
-	cleanup(signalId: SignalId): void {
+	cleanup(signalId: SignalId, options: RemoveOptions = {}): void {
 		const signal = this.signals.get(signalId)
-		if (signal) {
-			signal.bindings.clear()
-			signal.callbacks.clear()
-			this.signals.delete(signalId)
+		if (!signal) return
+
+		const { cascade = "detach" } = options
+		if (cascade === "refuse") {
+			const dependents = this.findDependents(signalId)
+			if (dependents.length > 0) {
+				throw new SignalDependencyError(signalId, dependents)
+			}
+		}
+
+		for (const computedId of Array.from(signal.computed)) {
+			const computedSignal = this.signals.get(computedId)
+			if (!computedSignal) continue
+
+			if (cascade === "detach") {
+				this.freezeComputed(computedId, computedSignal)
+			} else {
+				this.cleanup(computedId, options)
+			}
+		}
+
+		// Unlink from its own dependencies so none of them points back at a missing signal
+		if (signal.dependencies) {
+			this.setDependencies(signalId, signal, [])
 		}
+
+		this.cancelDispose(signal)
+		signal.writeLimiter?.cancel()
+		signal.notifyLimiter?.cancel()
+		signal.persistence?.()
+		signal.bindings.clear()
+		signal.callbacks.clear()
+		signal.weakCallbacks = undefined
+		this.signals.delete(signalId)
+		if (signal.validator) {
+			this.cleanup(getIssuesSignalId(signalId), options)
+		}
+		this.emitLifecycle("removed", signalId)
+		this.companions.delete(signalId)
+		this.hydratedValues.delete(signalId)
 	}
 
 	getActiveSignals(): SignalId[] {
 		return Array.from(this.signals.keys())
 	}
 
-	cleanupMatching(pattern: string): void {
+	query(pattern: SignalPattern): SignalMatch[] {
+		const matches: SignalMatch[] = []
+		for (const id of this.signals.keys()) {
+			if (this.companions.has(id)) continue
+			const match = matchSignalId(id, pattern)
+			if (match) {
+				matches.push({ id, value: this.getValue(id), groups: { ...match.groups } })
+			}
+		}
+		return matches
+	}
+
+	addInterceptor<T>(interceptor: UpdateInterceptor<T>, signalId?: SignalId): (() => void) | null {
+		if (signalId === undefined) {
+			this.interceptors.add(interceptor as UpdateInterceptor)
+			return () => {
+				this.interceptors.delete(interceptor as UpdateInterceptor)
+			}
+		}
+
+		const signal = this.signals.get(signalId) as Signal<T> | undefined
+		if (!signal) return null
+
+		signal.interceptors = [...(signal.interceptors ?? []), interceptor]
+		return () => {
+			const remaining = signal.interceptors?.filter((existing) => existing !== interceptor)
+			signal.interceptors = remaining?.length ? remaining : undefined
+		}
+	}
+
+	configure(options: EngineOptions): void {
+		if (options.scheduler) {
+			this.scheduler = options.scheduler
+		}
+		if (options.timing) {
+			this.timing = { ...this.timing, ...options.timing }
+		}
+	}
+
+	getScheduler(): SchedulerMode {
+		return this.scheduler
+	}
+
+	flush(signalId: SignalId): void {
+		const signal = this.signals.get(signalId)
+		// Writes first, so the notifications they trigger are flushed too
+		signal?.writeLimiter?.flush()
+		signal?.notifyLimiter?.flush()
+	}
+
+	cancel(signalId: SignalId): void {
+		const signal = this.signals.get(signalId)
+		if (!signal) return
+
+		signal.writeLimiter?.cancel()
+		signal.pendingWrite = undefined
+		signal.notifyLimiter?.cancel()
+	}
+
+	onSignalCreated(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return this.addLifecycleListener("created", listener, pattern)
+	}
+
+	onSignalRemoved(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return this.addLifecycleListener("removed", listener, pattern)
+	}
+
+	onComputedRegistered(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return this.addLifecycleListener("computed", listener, pattern)
+	}
+
+	cleanupMatching(pattern: SignalPattern, options: RemoveOptions = {}): void {
 		const toDelete: SignalId[] = []
 		for (const signalId of this.signals.keys()) {
-			if (this.matchesPattern(signalId, pattern)) {
+			if (!this.companions.has(signalId) && matchesPattern(signalId, pattern)) {
 				toDelete.push(signalId)
 			}
 		}
+
+		if (options.cascade !== "refuse") {
+			for (const signalId of toDelete) {
+				this.cleanup(signalId, options)
+			}
+			return
+		}
+
+		// Dependents removed along with their dependencies do not count as left behind
+		const matched = new Set(toDelete)
 		for (const signalId of toDelete) {
-			this.cleanup(signalId)
+			const dependents = this.findDependents(signalId).filter((id) => !matched.has(id))
+			if (dependents.length > 0) {
+				throw new SignalDependencyError(signalId, dependents)
+			}
+		}
+		for (const signalId of toDelete) {
+			this.cleanup(signalId, { cascade: "cascade" })
 		}
 	}
 }
 
+/**
+ * Create an engine with its own signal namespace, independent of the global one
+ * Useful for embedding isolated widgets and for keeping tests from sharing state
+ *
+ * @param options - Default scheduler for element bindings and how its ticks are queued
+ */
+export function createEngine(options?: EngineOptions): ReactiveEngine {
+	return new ReactiveEngineImpl(options)
+}
+
 // Global namespace fallback for cross-bundle compatibility
 export const REACTIVE_CORE: ReactiveEngine = (() => {
 	if (typeof window !== "undefined" && window.__REACTIVE_CORE__) {
@@ -0,0 +1,107 @@
+/**
+ * Decides whether a new signal value is the same as the current one
+ * Returning true skips the update entirely
+ */
+export type EqualityFunction<T = unknown> = (a: T, b: T) => boolean
+
+/**
+ * Equality accepted by `SignalOptions.equals`: a custom function or one of the built-in comparisons
+ */
+export type EqualityOption<T = unknown> = EqualityFunction<T> | "shallow" | "deep"
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== "object") return false
+	const proto = Object.getPrototypeOf(value)
+	return proto === Object.prototype || proto === null
+}
+
+/**
+ * Compare arrays item by item and plain objects key by key, one level deep
+ * Everything else falls back to `Object.is`
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true
+
+	if (Array.isArray(a) && Array.isArray(b)) {
+		if (a.length !== b.length) return false
+		for (let i = 0; i < a.length; i++) {
+			if (!Object.is(a[i], b[i])) return false
+		}
+		return true
+	}
+
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a)
+		if (keys.length !== Object.keys(b).length) return false
+		for (const key of keys) {
+			if (!Object.hasOwn(b, key) || !Object.is(a[key], b[key])) return false
+		}
+		return true
+	}
+
+	return false
+}
+
+/**
+ * Structural comparison of arrays, plain objects, Maps, Sets, Dates and RegExps at any depth
+ * Other objects (class instances, functions) are compared by reference
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+	return compareDeep(a, b, new WeakMap())
+}
+
+function compareDeep(a: unknown, b: unknown, seen: WeakMap<object, object>): boolean {
+	if (Object.is(a, b)) return true
+	if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false
+
+	// Already comparing this pair further up; assume equal to stop on circular references
+	if (seen.get(a) === b) return true
+	seen.set(a, b)
+
+	if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+	if (a instanceof RegExp && b instanceof RegExp) return a.toString() === b.toString()
+
+	if (Array.isArray(a) && Array.isArray(b)) {
+		if (a.length !== b.length) return false
+		for (let i = 0; i < a.length; i++) {
+			if (!compareDeep(a[i], b[i], seen)) return false
+		}
+		return true
+	}
+
+	if (a instanceof Map && b instanceof Map) {
+		if (a.size !== b.size) return false
+		for (const [key, value] of a) {
+			if (!b.has(key) || !compareDeep(value, b.get(key), seen)) return false
+		}
+		return true
+	}
+
+	if (a instanceof Set && b instanceof Set) {
+		if (a.size !== b.size) return false
+		for (const value of a) {
+			if (!b.has(value)) return false
+		}
+		return true
+	}
+
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a)
+		if (keys.length !== Object.keys(b).length) return false
+		for (const key of keys) {
+			if (!Object.hasOwn(b, key) || !compareDeep(a[key], b[key], seen)) return false
+		}
+		return true
+	}
+
+	return false
+}
+
+/**
+ * Turn an `EqualityOption` into the function the engine calls
+ */
+export function resolveEquality<T>(equals: EqualityOption<T> | undefined): EqualityFunction<T> {
+	if (equals === "shallow") return shallowEqual
+	if (equals === "deep") return deepEqual
+	return equals ?? Object.is
+}
@@ -0,0 +1,98 @@
+import type { BindingFunction, CallbackFunction, ReactiveEngine, RemoveOptions, Signal, SignalId } from "./core"
+import type { BindingOptions } from "./scheduler"
+
+/**
+ * Typed reference to a signal, bound to the engine that created it
+ * Hooks and components accept a handle wherever they accept a signal ID
+ */
+export interface SignalHandle<T = unknown> {
+	/** ID of the underlying signal */
+	readonly id: SignalId
+	/** Engine the signal lives in; hooks and components use it instead of the one from context */
+	readonly engine: ReactiveEngine
+	/** Read the current (transformed) value; undefined once the signal is disposed */
+	get(): T
+	/** Write a new value */
+	set(value: T): void
+	/** Write a value derived from the current one */
+	update(fn: (prev: T) => T): void
+	/** Call `callback` whenever the value changes; returns null once the signal is disposed */
+	subscribe(callback: CallbackFunction<T>, options?: BindingOptions): (() => void) | null
+	/** Keep an element in sync with the value; returns null once the signal is disposed */
+	bind(element: HTMLElement, bindingFn: BindingFunction<T>, options?: BindingOptions): (() => void) | null
+	/** Remove the signal and clean up its bindings; `options.cascade` decides what happens to dependents */
+	dispose(options?: RemoveOptions): void
+}
+
+/**
+ * Create a handle for an existing signal
+ *
+ * @param engine - Engine that owns the signal
+ * @param id - Signal identifier
+ * @returns Handle whose methods operate on `engine`
+ */
+export function createHandle<T>(engine: ReactiveEngine, id: SignalId): SignalHandle<T> {
+	return {
+		id,
+		engine,
+		get: () => engine.getValue<T>(id) as T,
+		set: (value) => engine.updateSignal(id, value),
+		update: (fn) => engine.updateSignal(id, fn(engine.getValue<T>(id) as T)),
+		subscribe: (callback, options) => engine.subscribe(id, callback, options),
+		bind: (element, bindingFn, options) => engine.bindElement(element, id, bindingFn, options),
+		dispose: (options) => engine.cleanup(id, options),
+	}
+}
+
+/**
+ * Handle returned by `signal.create` and `signal.upsert`
+ * Also exposes the fields of the underlying signal (`value`, `rawValue`, `bindings`...) read-only,
+ * since both used to return the signal itself
+ */
+export type SignalInstance<T = unknown> = SignalHandle<T> & Readonly<Signal<T>>
+
+/**
+ * Create a handle that also reads through to the fields of `signal`
+ *
+ * @param engine - Engine that owns the signal
+ * @param id - Signal identifier
+ * @param signal - Signal stored under `id`
+ */
+export function createSignalInstance<T>(engine: ReactiveEngine, id: SignalId, signal: Signal<T>): SignalInstance<T> {
+	// Signal fields are looked up on the live signal through the prototype, so they never go stale
+	return Object.assign(Object.create(signal), createHandle<T>(engine, id))
+}
+
+/**
+ * Resolve the engine a signal ID or handle belongs to
+ * A handle carries its own engine; a plain ID lives in `fallback`, usually the engine from context
+ */
+export function getSourceEngine(
+	source: SignalId | SignalHandle<any> | undefined,
+	fallback: ReactiveEngine
+): ReactiveEngine {
+	return source === undefined || typeof source === "string" ? fallback : source.engine
+}
+
+/**
+ * Resolve the one engine a list of signal IDs and handles belongs to
+ * Handles must share an engine, which plain IDs then live in too; without handles, everything lives in `fallback`
+ */
+export function getSourcesEngine(sources: (SignalId | SignalHandle<any>)[], fallback: ReactiveEngine): ReactiveEngine {
+	let engine: ReactiveEngine | undefined
+	for (const source of sources) {
+		if (typeof source === "string") continue
+		if (engine && source.engine !== engine) {
+			throw new TypeError(`Signal "${source.id}" belongs to a different engine than the other handles`)
+		}
+		engine = source.engine
+	}
+	return engine ?? fallback
+}
+
+/**
+ * Resolve a signal ID or handle to the signal ID
+ */
+export function getSignalId(source: SignalId | SignalHandle<any>): SignalId {
+	return typeof source === "string" ? source : source.id
+}
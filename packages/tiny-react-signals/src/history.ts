@@ -0,0 +1,164 @@
+import type { ReactiveEngine, SignalId } from "./core"
+
+/**
+ * Options for recording signal history
+ */
+export interface HistoryOptions {
+	/** ID prefix for the `canUndo` / `canRedo` signals (default: `history.<n>`) */
+	id?: SignalId
+	/** Maximum number of undo steps kept (default: 100) */
+	limit?: number
+}
+
+/**
+ * One recorded change to a single signal, stored as raw values
+ */
+interface HistoryChange {
+	id: SignalId
+	prev: unknown
+	next: unknown
+}
+
+/**
+ * One undo step; all changes notified by the same batch share an entry
+ */
+interface HistoryEntry {
+	batchId: number
+	changes: HistoryChange[]
+}
+
+/**
+ * Handle for controlling a history
+ */
+export interface History {
+	/** ID prefix of the history signals */
+	id: SignalId
+	/** ID of the boolean signal telling whether `undo()` would do anything */
+	canUndo: SignalId
+	/** ID of the boolean signal telling whether `redo()` would do anything */
+	canRedo: SignalId
+	/** Revert the latest entry; returns false when there is nothing to undo */
+	undo(): boolean
+	/** Re-apply the latest undone entry; returns false when there is nothing to redo */
+	redo(): boolean
+	/** Forget all recorded entries */
+	clear(): void
+	/** Stop recording and remove the history signals */
+	dispose(): void
+}
+
+let historyCounter = 0
+
+/**
+ * Record changes to a set of signals so they can be undone and redone
+ * Raw values are recorded, so transformers run again when an entry is replayed
+ *
+ * @param engine - Engine that owns the signals
+ * @param ids - Signal IDs to record
+ * @param options - History ID and maximum number of entries
+ * @returns Handle exposing undo/redo and the IDs of the `canUndo` / `canRedo` signals
+ */
+export function createHistory(engine: ReactiveEngine, ids: SignalId[], options: HistoryOptions = {}): History {
+	const { id = `history.${++historyCounter}`, limit = 100 } = options
+	const canUndo = `${id}.canUndo`
+	const canRedo = `${id}.canRedo`
+
+	const undoStack: HistoryEntry[] = []
+	const redoStack: HistoryEntry[] = []
+	const lastRawValues = new Map<SignalId, unknown>()
+	// Raw values written by undo/redo; their notifications may arrive later, when an outer batch flushes
+	const replayedValues = new Map<SignalId, unknown>()
+
+	engine.createSignal(canUndo, false)
+	engine.createSignal(canRedo, false)
+
+	const syncFlags = () => {
+		engine.updateSignal(canUndo, undoStack.length > 0)
+		engine.updateSignal(canRedo, redoStack.length > 0)
+	}
+
+	const record = (signalId: SignalId) => {
+		const prev = lastRawValues.get(signalId)
+		const next = engine.getRawValue(signalId)
+		lastRawValues.set(signalId, next)
+
+		if (replayedValues.has(signalId)) {
+			const replayed = replayedValues.get(signalId)
+			replayedValues.delete(signalId)
+			if (Object.is(replayed, next)) return
+		}
+
+		const batchId = engine.getBatchId()
+		const last = undoStack[undoStack.length - 1]
+
+		if (batchId !== 0 && last?.batchId === batchId) {
+			const existing = last.changes.find((change) => change.id === signalId)
+			if (existing) {
+				existing.next = next
+			} else {
+				last.changes.push({ id: signalId, prev, next })
+			}
+		} else {
+			undoStack.push({ batchId, changes: [{ id: signalId, prev, next }] })
+			if (undoStack.length > limit) {
+				undoStack.shift()
+			}
+		}
+
+		redoStack.length = 0
+		syncFlags()
+	}
+
+	const replay = (entry: HistoryEntry, direction: "prev" | "next") => {
+		const changes = direction === "prev" ? [...entry.changes].reverse() : entry.changes
+		engine.batchUpdate(() => {
+			for (const change of changes) {
+				engine.updateSignal(change.id, change[direction])
+				replayedValues.set(change.id, engine.getRawValue(change.id))
+			}
+		})
+		for (const change of changes) {
+			lastRawValues.set(change.id, engine.getRawValue(change.id))
+		}
+		syncFlags()
+	}
+
+	const unsubscribers = ids.map((signalId) => {
+		lastRawValues.set(signalId, engine.getRawValue(signalId))
+		return engine.subscribe(signalId, () => record(signalId), { weak: true })
+	})
+
+	return {
+		id,
+		canUndo,
+		canRedo,
+		undo() {
+			const entry = undoStack.pop()
+			if (!entry) return false
+			redoStack.push(entry)
+			replay(entry, "prev")
+			return true
+		},
+		redo() {
+			const entry = redoStack.pop()
+			if (!entry) return false
+			undoStack.push(entry)
+			replay(entry, "next")
+			return true
+		},
+		clear() {
+			undoStack.length = 0
+			redoStack.length = 0
+			syncFlags()
+		},
+		dispose() {
+			for (const unsubscribe of unsubscribers) {
+				unsubscribe?.()
+			}
+			undoStack.length = 0
+			redoStack.length = 0
+			engine.cleanup(canUndo)
+			engine.cleanup(canRedo)
+		},
+	}
+}
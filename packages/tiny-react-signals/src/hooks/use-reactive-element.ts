@@ -1,6 +1,9 @@
 import * as React from "react"
-import { REACTIVE_CORE } from "../core"
-import type { BindingFunction, SignalId } from "../core"
+import { useSignalEngine } from "../context"
+import type { BindingFunction } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
+import type { BindingOptions } from "../scheduler"
 
 /**
  * A React hook that creates a reactive binding between a DOM element and a signal.
@@ -10,10 +13,11 @@ import type { BindingFunction, SignalId } from "../core"
  * @template T - The type of the signal value
  * @template E - The type of the HTML element (extends HTMLElement)
  *
- * @param signalId - The unique identifier of the signal to bind to
+ * @param source - The unique identifier of the signal to bind to, or a handle to it
  * @param bindingFn - Function that defines how to update the DOM element when the signal changes.
  *                   Receives the element and the new signal value as parameters.
  * @param dependencies - Optional React dependency array for the binding function memoization
+ * @param options - Optional scheduler for the binding; defaults to the engine's
  *
  * @returns A React ref object that should be attached to the target DOM element
  *
@@ -53,15 +57,19 @@ import type { BindingFunction, SignalId } from "../core"
  * );
  * ```
  */
-export function useReactiveElement<T = unknown, E extends HTMLElement = HTMLElement>(
-	signalId: SignalId,
-	bindingFn: BindingFunction<T>,
-	dependencies: React.DependencyList = []
+export function useReactiveElement<T = unknown, E extends HTMLElement = HTMLElement, K extends SignalKey = SignalKey>(
+	source: K | SignalHandle<SignalType<K, T>>,
+	bindingFn: BindingFunction<SignalType<K, T>>,
+	dependencies: React.DependencyList = [],
+	options?: BindingOptions
 ): React.RefObject<E | null> {
+	const engine = getSourceEngine(source, useSignalEngine())
+	const signalId = getSignalId(source)
 	const elementRef = React.useRef<E>(null)
 	const cleanupRef = React.useRef<(() => void) | null>(null)
 
 	const memoizedBindingFn = React.useCallback(bindingFn, dependencies)
+	const scheduler = options?.scheduler
 
 	React.useEffect(() => {
 		const element = elementRef.current
@@ -71,7 +79,7 @@ export function useReactiveElement<T = unknown, E extends HTMLElement = HTMLElem
 			cleanupRef.current()
 		}
 
-		cleanupRef.current = REACTIVE_CORE.bindElement(element, signalId, memoizedBindingFn)
+		cleanupRef.current = engine.bindElement(element, signalId, memoizedBindingFn, { scheduler })
 
 		return () => {
 			if (cleanupRef.current) {
@@ -79,7 +87,7 @@ export function useReactiveElement<T = unknown, E extends HTMLElement = HTMLElem
 				cleanupRef.current = null
 			}
 		}
-	}, [signalId, memoizedBindingFn])
+	}, [engine, signalId, memoizedBindingFn, scheduler])
 
 	return elementRef
 }
@@ -1,22 +1,29 @@
 import { useCallback, useMemo, useRef, useSyncExternalStore } from "react"
-import { REACTIVE_CORE } from "../core"
+import { useSignalEngine } from "../context"
 import type { SignalId, SignalOptions } from "../core"
+import { type SignalHandle, getSignalId, getSourcesEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
 
 /**
  * Hook for creating computed signals
  *
  * @param id - Unique computed signal identifier
- * @param dependencies - Array of signal IDs this computed signal depends on
+ * @param dependencySources - Array of signal IDs or handles this computed signal depends on; handles must share one engine
  * @param computeFn - Function to compute the value from dependencies
  * @param options - Optional signal configuration
  * @returns Tuple of [computedValue, recompute]
  */
-export function useSignalComputed<T>(
-	id: SignalId,
-	dependencies: SignalId[],
-	computeFn: (...deps: unknown[]) => T,
-	options?: SignalOptions<T>
-): [T, () => void] {
+export function useSignalComputed<T, K extends SignalKey = SignalKey>(
+	id: K,
+	dependencySources: (SignalKey | SignalHandle)[],
+	computeFn: (...deps: unknown[]) => SignalType<K, T>,
+	options?: SignalOptions<SignalType<K, T>>
+): [SignalType<K, T>, () => void] {
+	type Value = SignalType<K, T>
+
+	// The computed signal lives in the engine of its handles, or the one from context
+	const engine = getSourcesEngine(dependencySources, useSignalEngine())
+	const dependencies = dependencySources.map(getSignalId)
 	const depsRef = useRef<SignalId[]>(dependencies)
 	const depsChanged = useMemo(() => {
 		const changed =
@@ -31,29 +38,29 @@ export function useSignalComputed<T>(
 
 	useMemo(() => {
 		if (depsChanged) {
-			REACTIVE_CORE.cleanup(id)
+			engine.cleanup(id)
 		}
-		REACTIVE_CORE.upsertComputed(id, dependencies, computeFn, options)
-	}, [id, depsChanged, computeFn, options, dependencies])
+		engine.upsertComputed(id, dependencies, computeFn, options)
+	}, [engine, id, depsChanged, computeFn, options, dependencies])
 
 	const subscribe = useCallback(
 		(callback: () => void) => {
-			return REACTIVE_CORE.subscribe<T>(id, callback) ?? (() => {})
+			return engine.subscribe<Value>(id, callback) ?? (() => {})
 		},
-		[id]
+		[engine, id]
 	)
 
 	const getSnapshot = useCallback(() => {
 		// Some war crimes happening here
 		// undefined should never return though, as we upsert the signal just above
-		return (REACTIVE_CORE.getValue<T>(id) ?? undefined) as T
-	}, [id])
+		return (engine.getValue<Value>(id) ?? undefined) as Value
+	}, [engine, id])
 
 	const value = useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
 
 	const recompute = useCallback(() => {
-		REACTIVE_CORE.recomputeSignal(id)
-	}, [id])
+		engine.recomputeSignal(id)
+	}, [engine, id])
 
 	return [value, recompute]
 }
@@ -1,14 +1,22 @@
 import { useEffect, useRef } from "react"
-import { REACTIVE_CORE } from "../core"
+import { useSignalEngine } from "../context"
 import type { SignalId } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
 
 /**
  * Hook for running effects when signals change
  *
  * @param effect - Effect function to run
- * @param signalDeps - Array of signal IDs to watch
+ * @param signalSources - Array of signal IDs or handles to watch
  */
-export function useSignalEffect(effect: ((values: unknown[]) => void) | (() => void), signalDeps: SignalId[]): void {
+export function useSignalEffect(
+	effect: ((values: unknown[]) => void) | (() => void),
+	signalSources: (SignalId | SignalHandle)[]
+): void {
+	const contextEngine = useSignalEngine()
+	// Each handle is watched in its own engine, plain IDs in the one from context
+	const engines = signalSources.map((source) => getSourceEngine(source, contextEngine))
+	const signalDeps = signalSources.map(getSignalId)
 	const cleanupRef = useRef<(() => void) | null>(null)
 
 	// biome-ignore lint/correctness/useExhaustiveDependencies: Probably using effect wrong here. Open a PR.
@@ -18,7 +26,7 @@ export function useSignalEffect(effect: ((values: unknown[]) => void) | (() => v
 			cleanupRef.current = null
 		}
 
-		const getCurrentValues = () => signalDeps.map((id) => REACTIVE_CORE.getValue(id))
+		const getCurrentValues = () => signalDeps.map((id, index) => engines[index].getValue(id))
 
 		const runEffect = () => {
 			if (cleanupRef.current) {
@@ -35,7 +43,7 @@ export function useSignalEffect(effect: ((values: unknown[]) => void) | (() => v
 		}
 
 		const bindings = signalDeps
-			.map((signalId) => REACTIVE_CORE.subscribe(signalId, runEffect))
+			.map((signalId, index) => engines[index].subscribe(signalId, runEffect))
 			.filter((cleanup): cleanup is () => void => cleanup !== null)
 
 		runEffect()
@@ -50,5 +58,5 @@ export function useSignalEffect(effect: ((values: unknown[]) => void) | (() => v
 				cleanup()
 			}
 		}
-	}, [signalDeps.join(",")])
+	}, [contextEngine, signalDeps.join(",")])
 }
@@ -1,38 +1,45 @@
 import { useEffect, useRef } from "react"
-import { REACTIVE_CORE } from "../core"
-import type { SignalId, SignalOptions } from "../core"
+import { useSignalEngine } from "../context"
+import type { SignalOptions } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
 
 /**
  * Hook for accessing signal values without triggering React re-renders
  * Perfect for read-only access or when you handle updates manually
  *
- * @param id - Signal identifier
+ * @param source - Signal identifier or handle
  * @param initialValue - Initial value for the signal
  * @param options - Optional signal configuration
  * @returns Ref object with current signal value
  */
-export function useSignalRef<T>(
-	id: SignalId,
-	initialValue?: T,
-	options?: SignalOptions<T>
-): { readonly current: T | undefined } {
+export function useSignalRef<T, K extends SignalKey = SignalKey>(
+	source: K | SignalHandle<SignalType<K, T>>,
+	initialValue?: SignalType<K, T>,
+	options?: SignalOptions<SignalType<K, T>>
+): { readonly current: SignalType<K, T> | undefined } {
+	type Value = SignalType<K, T>
+
+	const id = getSignalId(source)
+	const engine = getSourceEngine(source, useSignalEngine())
+
 	if (initialValue !== undefined) {
-		REACTIVE_CORE.upsertSignal(id, initialValue, options)
+		engine.upsertSignal(id, initialValue, options)
 	}
 
-	const valueRef = useRef<T | undefined>(REACTIVE_CORE.getValue<T>(id))
+	const valueRef = useRef<Value | undefined>(engine.getValue<Value>(id))
 
 	useEffect(() => {
-		valueRef.current = REACTIVE_CORE.getValue<T>(id)
+		valueRef.current = engine.getValue<Value>(id)
 
-		const cleanup = REACTIVE_CORE.subscribe<T>(id, (value: T) => {
+		const cleanup = engine.subscribe<Value>(id, (value: Value) => {
 			valueRef.current = value
 		})
 
 		return () => {
 			cleanup?.()
 		}
-	}, [id])
+	}, [engine, id])
 
 	return valueRef
 }
@@ -1,6 +1,8 @@
 import { useMemo, useRef, useSyncExternalStore } from "react"
-import { REACTIVE_CORE } from "../core"
+import { useSignalEngine } from "../context"
 import type { SignalId, SignalOptions } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
 
 /**
  * Hook for selecting part of a signal value with memoization
@@ -10,7 +12,7 @@ import type { SignalId, SignalOptions } from "../core"
  * NOTE: Optimized for performance - selector and signal ID should be stable.
  * Dynamic changes to selector/ID are not supported.
  *
- * @param id - Signal identifier
+ * @param source - Signal identifier, or a handle to an existing signal (then the initial value is left out)
  * @param initialValue - Initial value for the signal
  * @param selector - Function to select part of the signal value
  * @param equalityFn - Function to determine if selected values are equal (defaults to `Object.is`)
@@ -29,23 +31,42 @@ import type { SignalId, SignalOptions } from "../core"
  *   user => ({ name: user.name, avatar: user.avatar }),
  *   (a, b) => a.name === b.name && a.avatar === b.avatar
  * )
+ *
+ * @example
+ * // With a handle
+ * const user = signal.create('user', defaultUser)
+ * const userName = useSignalSelector(user, user => user.name)
  */
 export function useSignalSelector<T, R>(
-	id: SignalId,
-	initialValue: T,
+	handle: SignalHandle<T>,
 	selector: (value: T) => R,
-	equalityFn: (a: R, b: R) => boolean = Object.is,
-	options?: SignalOptions<T>
-): R {
+	equalityFn?: (a: R, b: R) => boolean
+): R
+export function useSignalSelector<T, R, K extends SignalKey = SignalKey>(
+	id: K,
+	initialValue: SignalType<K, T>,
+	selector: (value: SignalType<K, T>) => R,
+	equalityFn?: (a: R, b: R) => boolean,
+	options?: SignalOptions<SignalType<K, T>>
+): R
+export function useSignalSelector<Value, R>(source: SignalId | SignalHandle<Value>, ...args: unknown[]): R {
+	// A handle carries its own value, so its arguments start at the selector
+	const [initialValue, selector, equalityFn = Object.is, options] = (
+		typeof source === "string" ? args : [source.get(), ...args]
+	) as [Value, (value: Value) => R, ((a: R, b: R) => boolean) | undefined, SignalOptions<Value> | undefined]
+	const id = getSignalId(source)
+
+	const engine = getSourceEngine(source, useSignalEngine())
+
 	// biome-ignore lint/correctness/useExhaustiveDependencies: Depend on only id for perf
 	const signal = useMemo(() => {
-		REACTIVE_CORE.upsertSignal(id, initialValue, options)
+		engine.upsertSignal(id, initialValue, options)
 		return { id, initialValue }
-	}, [id])
+	}, [engine, id])
 
 	// Stable reference for selector state
 	const selectorRef = useRef<{
-		selector: (value: T) => R
+		selector: (value: Value) => R
 		equalityFn: (a: R, b: R) => boolean
 		lastSelected?: R
 		hasSelected: boolean
@@ -63,7 +84,7 @@ export function useSignalSelector<T, R>(
 	const subscribe = useMemo(() => {
 		return (listener: () => void) => {
 			return (
-				REACTIVE_CORE.subscribe<T>(signal.id, (newState: T) => {
+				engine.subscribe<Value>(signal.id, (newState: Value) => {
 					const ref = selectorRef.current
 					const newSelected = ref.selector(newState)
 
@@ -75,7 +96,7 @@ export function useSignalSelector<T, R>(
 				}) || (() => {})
 			)
 		}
-	}, [signal.id])
+	}, [engine, signal.id])
 
 	// Memoized getSnapshot
 	const getSnapshot = useMemo(() => {
@@ -85,13 +106,13 @@ export function useSignalSelector<T, R>(
 				return ref.lastSelected as R
 			}
 
-			const state = REACTIVE_CORE.getValue<T>(signal.id) ?? signal.initialValue
+			const state = engine.getValue<Value>(signal.id) ?? signal.initialValue
 			const selected = ref.selector(state)
 			ref.lastSelected = selected
 			ref.hasSelected = true
 			return selected
 		}
-	}, [signal.id, signal.initialValue])
+	}, [engine, signal.id, signal.initialValue])
 
 	return useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
 }
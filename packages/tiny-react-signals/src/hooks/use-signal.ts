@@ -1,48 +1,60 @@
 import { useMemo, useSyncExternalStore } from "react"
-import { REACTIVE_CORE } from "../core"
+import { useSignalEngine } from "../context"
 import type { SignalId, SignalOptions } from "../core"
+import { type SignalHandle, getSignalId, getSourceEngine } from "../handle"
+import type { SignalKey, SignalType } from "../registry"
 
 /**
  * Drop-in replacement for useState that creates global signals
  *
- * @param id - Unique signal identifier
- * @param initialValue - Initial value for the signal
+ * @param source - Unique signal identifier, or a handle to an existing signal
+ * @param initialValue - Initial value for the signal (not needed with a handle)
  * @param options - Optional signal configuration
  * @returns Tuple of [currentValue, setValue] like useState
  */
-export function useSignal<T>(
-	id: SignalId,
-	initialValue: T,
-	options?: SignalOptions<T>
-): [T, (value: T | ((prev: T) => T)) => void] {
+export function useSignal<T>(handle: SignalHandle<T>): [T, (value: T | ((prev: T) => T)) => void]
+export function useSignal<T, K extends SignalKey = SignalKey>(
+	id: K,
+	initialValue: SignalType<K, T>,
+	options?: SignalOptions<SignalType<K, T>>
+): [SignalType<K, T>, (value: SignalType<K, T> | ((prev: SignalType<K, T>) => SignalType<K, T>)) => void]
+export function useSignal<Value>(
+	source: SignalId | SignalHandle<Value>,
+	initialValue?: Value,
+	options?: SignalOptions<Value>
+): [Value, (value: Value | ((prev: Value) => Value)) => void] {
+	const id = getSignalId(source)
+	const engine = getSourceEngine(source, useSignalEngine())
+
 	// biome-ignore lint/correctness/useExhaustiveDependencies: Depend on only id for perf
 	const signal = useMemo(() => {
-		REACTIVE_CORE.upsertSignal(id, initialValue, options)
-		return { id, initialValue }
-	}, [id])
+		const initial = typeof source === "string" ? (initialValue as Value) : source.get()
+		engine.upsertSignal(id, initial, options)
+		return { id, initialValue: initial }
+	}, [engine, id])
 
 	const subscribe = useMemo(() => {
 		return (callback: () => void) => {
-			return REACTIVE_CORE.subscribe<T>(signal.id, callback) || (() => {})
+			return engine.subscribe<Value>(signal.id, callback) || (() => {})
 		}
-	}, [signal.id])
+	}, [engine, signal.id])
 
 	const getSnapshot = useMemo(() => {
-		return () => REACTIVE_CORE.getValue<T>(signal.id) ?? signal.initialValue
-	}, [signal.id, signal.initialValue])
+		return () => engine.getValue<Value>(signal.id) ?? signal.initialValue
+	}, [engine, signal.id, signal.initialValue])
 
 	const value = useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
 
 	const setValue = useMemo(() => {
-		return (newValue: T | ((prev: T) => T)) => {
+		return (newValue: Value | ((prev: Value) => Value)) => {
 			if (typeof newValue === "function") {
-				const current = REACTIVE_CORE.getValue<T>(signal.id) ?? signal.initialValue
-				REACTIVE_CORE.updateSignal(signal.id, (newValue as (prev: T) => T)(current))
+				const current = engine.getValue<Value>(signal.id) ?? signal.initialValue
+				engine.updateSignal(signal.id, (newValue as (prev: Value) => Value)(current))
 			} else {
-				REACTIVE_CORE.updateSignal(signal.id, newValue)
+				engine.updateSignal(signal.id, newValue)
 			}
 		}
-	}, [signal.id, signal.initialValue])
+	}, [engine, signal.id, signal.initialValue])
 
 	return [value, setValue]
 }
@@ -0,0 +1,97 @@
+import type { ReactiveEngine, SignalId, SignalSnapshot } from "./core"
+import type { SignalPattern } from "./pattern"
+import { getCurrentEngine } from "./scope"
+
+declare const process: { env: Record<string, string | undefined> }
+
+/**
+ * Default ID of the script element carrying the server snapshot
+ */
+export const HYDRATION_SCRIPT_ID = "__SIGNALS__"
+
+/**
+ * Options for seeding the client engine from the server snapshot
+ */
+export interface HydrateSignalsOptions {
+	/** ID of the snapshot script element (default: `HYDRATION_SCRIPT_ID`) */
+	id?: string
+	/** Engine to seed (default: the current engine) */
+	engine?: ReactiveEngine
+	/** Warn about signals created on the client with a different value (default: outside production) */
+	warnOnMismatch?: boolean
+}
+
+function isDevelopment(): boolean {
+	// Bundlers replace `process.env.NODE_ENV`; without one, `process` does not exist in the browser
+	try {
+		return process.env.NODE_ENV !== "production"
+	} catch {
+		return false
+	}
+}
+
+function warnMismatch(signalId: SignalId, client: unknown, server: unknown): void {
+	// biome-ignore lint/suspicious/noConsole: Development-only hydration diagnostics
+	console.warn(
+		`[tiny-react-signals] Signal "${signalId}" was created on the client with a different value than the server rendered. The server value will be used.`,
+		{ client, server }
+	)
+}
+
+/**
+ * Serialize a snapshot as JSON that is safe to inline in a `<script>` element
+ * `<`, `>` and `&` are escaped so values cannot close the script or open a comment
+ *
+ * @param snapshot - Raw values keyed by signal ID
+ * @returns Escaped JSON string
+ */
+export function serializeSnapshot(snapshot: SignalSnapshot): string {
+	return JSON.stringify(snapshot)
+		.replace(/</g, "\\u003c")
+		.replace(/>/g, "\\u003e")
+		.replace(/&/g, "\\u0026")
+		.replace(/\u2028/g, "\\u2028")
+		.replace(/\u2029/g, "\\u2029")
+}
+
+/**
+ * Build the snapshot script for an engine, for streaming setups that write HTML by hand
+ *
+ * @param engine - Engine to snapshot
+ * @param options - Optional signal filter, script ID and CSP nonce
+ * @returns `<script type="application/json">` markup
+ */
+export function getHydrationScript(
+	engine: ReactiveEngine,
+	options: { filter?: SignalPattern; id?: string; nonce?: string } = {}
+): string {
+	const { filter, id = HYDRATION_SCRIPT_ID, nonce } = options
+	const nonceAttribute = nonce ? ` nonce="${nonce.replace(/"/g, "&quot;")}"` : ""
+	return `<script type="application/json" id="${id}"${nonceAttribute}>${serializeSnapshot(engine.snapshot(filter))}</script>`
+}
+
+/**
+ * Seed the client engine with the snapshot rendered by the server
+ * Signals the client has not created yet pick up the options of the client code that creates them later
+ * Call it before `hydrateRoot` so the first client render matches the server markup
+ *
+ * @param options - Script ID, engine and mismatch warnings
+ * @returns The applied snapshot, or null when the page has none
+ *
+ * @example
+ * // entry.client.tsx
+ * hydrateSignals()
+ * hydrateRoot(document, <HydratedRouter />)
+ */
+export function hydrateSignals(options: HydrateSignalsOptions = {}): SignalSnapshot | null {
+	const { id = HYDRATION_SCRIPT_ID, engine = getCurrentEngine(), warnOnMismatch = isDevelopment() } = options
+	if (typeof document === "undefined") return null
+
+	const content = document.getElementById(id)?.textContent
+	if (!content) return null
+
+	const snapshot = JSON.parse(content) as SignalSnapshot
+	// Most client signals are created during the hydration render, by hooks and `signal.upsert`, with their options
+	engine.hydrate(snapshot, warnOnMismatch ? warnMismatch : undefined)
+	return snapshot
+}
@@ -1,6 +1,70 @@
 // Core reactive functionality
 export { reactive } from "./reactive"
 export { signal } from "./signal"
+export { createEngine, CANCEL_UPDATE, DEFAULT_DISPOSE_DELAY } from "./core"
+export { getCurrentEngine, runWithEngine, setEngineResolver } from "./scope"
+export type { EngineResolver } from "./scope"
+
+// Update scheduling
+export type { BindingOptions, EngineOptions, SchedulerMode, SchedulerTiming } from "./scheduler"
+
+// Debounce and throttle
+export type { RateLimitOption, RateLimitOptions, RateLimitTargets } from "./rate-limit"
+
+// Signal handles
+export type { SignalHandle, SignalInstance } from "./handle"
+
+// Engine context
+export { SignalEngineProvider, useSignalEngine } from "./context"
+export type { SignalEngineProviderProps } from "./context"
+
+// Async resources
+export type {
+	Resource,
+	ResourceFetcher,
+	ResourceFetcherContext,
+	ResourceOptions,
+	ResourceState,
+	ResourceStatus,
+} from "./resource"
+
+// Undo/redo history
+export type { History, HistoryOptions } from "./history"
+
+// Persistence
+export { localStorageAdapter, sessionStorageAdapter, memoryAdapter } from "./persist"
+export type { PersistAdapter, PersistOptions } from "./persist"
+
+// Cross-tab sync
+export { broadcastChannel, memoryChannel } from "./sync"
+export type { SyncChannel, SyncMessage, SyncOptions } from "./sync"
+
+// SSR hydration
+export { HYDRATION_SCRIPT_ID, getHydrationScript, hydrateSignals, serializeSnapshot } from "./hydration"
+export type { HydrateSignalsOptions } from "./hydration"
+
+// Typed signal registry
+export type { RegisteredSignalId, SignalKey, SignalRegistry, SignalType } from "./registry"
+
+// Signal patterns
+export type { SignalMatch, SignalPattern } from "./pattern"
+
+// Equality helpers
+export { shallowEqual, deepEqual } from "./equality"
+export type { EqualityFunction, EqualityOption } from "./equality"
+
+// Validation
+export { getIssuesSignalId } from "./validation"
+export type {
+	SignalValidator,
+	StandardSchemaV1,
+	ValidationIssue,
+	ValidationMode,
+	ValidatorFunction,
+} from "./validation"
+
+// Errors
+export { SignalCycleError, SignalDependencyError } from "./core"
 
 // Core types
 export type {
@@ -8,6 +72,17 @@ export type {
 	SignalValue,
 	BindingFunction,
 	ComputeFunction,
+	TrackedComputeFunction,
+	ReactiveEngine,
+	SignalUpdate,
+	SignalSnapshot,
+	HydrationMismatchListener,
+	CascadePolicy,
+	RemoveOptions,
+	SubscribeOptions,
+	SignalLifecycleEvent,
+	SignalLifecycleListener,
+	UpdateInterceptor,
 } from "./core"
 
 // React hooks
@@ -20,6 +95,7 @@ export { useSignalRef } from "./hooks/use-signal-ref"
 // React components
 export { Signal } from "./components/signal"
 export { SignalList } from "./components/signal-list"
+export { SignalHydration } from "./components/signal-hydration"
 
 // Component types
 export type {
@@ -35,4 +111,6 @@ export type {
 	SignalListProps,
 } from "./components/signal-list"
 
+export type { SignalHydrationProps } from "./components/signal-hydration"
+
 export const test = (): void => {}
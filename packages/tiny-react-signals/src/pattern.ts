@@ -0,0 +1,116 @@
+import type { SignalId } from "./core"
+
+/**
+ * Selects signals by ID
+ * - A string without wildcards matches IDs starting with it (`"user."`)
+ * - A glob matches whole IDs segment by segment: `*` is one segment, `**` any number of them,
+ *   and `{name}` is one segment captured under `name` (`"todo.{id}.done"`, `"cart.**"`)
+ * - A RegExp is tested as is; its named groups become the captures
+ */
+export type SignalPattern = string | RegExp
+
+/**
+ * Signal selected by a pattern, with the pattern's named captures
+ */
+export interface SignalMatch {
+	id: SignalId
+	value: unknown
+	groups: Record<string, string>
+}
+
+const compiledStrings = new Map<string, RegExp>()
+const compiledRegExps = new WeakMap<RegExp, RegExp>()
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function isGlob(pattern: string): boolean {
+	return pattern.includes("*") || pattern.includes("{")
+}
+
+function compileSegment(segment: string): string {
+	return segment
+		.split(/(\{\w+\}|\*)/)
+		.map((part) => {
+			if (part === "*") return "([^.]+)"
+			if (part.startsWith("{") && part.endsWith("}")) return `(?<${part.slice(1, -1)}>[^.]+)`
+			return escapeRegExp(part)
+		})
+		.join("")
+}
+
+function compileGlob(pattern: string): string {
+	const segments = pattern.split(".")
+	let source = ""
+
+	for (let i = 0; i < segments.length; i++) {
+		const segment = segments[i]
+		const isFirst = i === 0
+		const isLast = i === segments.length - 1
+
+		if (segment === "**") {
+			if (isFirst && isLast) {
+				source += "(.+)"
+			} else if (isFirst) {
+				// Zero or more leading segments; the next segment brings no separator of its own
+				source += "(?:(.+)\\.)?"
+			} else if (isLast) {
+				// `cart.**` selects what lives under `cart`, not `cart` itself
+				source += "\\.(.+)"
+			} else {
+				source += "(?:\\.(.+))?"
+			}
+			continue
+		}
+
+		const previousIsLeadingGlob = i === 1 && segments[0] === "**"
+		source += (isFirst || previousIsLeadingGlob ? "" : "\\.") + compileSegment(segment)
+	}
+
+	return `^${source}$`
+}
+
+/**
+ * Compile a pattern to a RegExp with match indices, cached per pattern
+ */
+function compilePattern(pattern: SignalPattern): RegExp {
+	if (typeof pattern === "string") {
+		let compiled = compiledStrings.get(pattern)
+		if (!compiled) {
+			compiled = new RegExp(isGlob(pattern) ? compileGlob(pattern) : `^${escapeRegExp(pattern)}`, "d")
+			compiledStrings.set(pattern, compiled)
+		}
+		return compiled
+	}
+
+	let compiled = compiledRegExps.get(pattern)
+	if (!compiled) {
+		// Drop global and sticky flags so `lastIndex` never carries over between IDs
+		const flags = pattern.flags.replace(/[gy]/g, "")
+		compiled = new RegExp(pattern.source, flags.includes("d") ? flags : `${flags}d`)
+		compiledRegExps.set(pattern, compiled)
+	}
+	return compiled
+}
+
+/**
+ * Match a signal ID against a pattern
+ *
+ * @param id - Signal ID to test
+ * @param pattern - Prefix, glob or RegExp
+ * @returns The match, with `indices`, or null
+ */
+export function matchSignalId(id: SignalId, pattern: SignalPattern): RegExpExecArray | null {
+	return compilePattern(pattern).exec(id)
+}
+
+/**
+ * Whether a signal ID is selected by a pattern
+ *
+ * @param id - Signal ID to test
+ * @param pattern - Prefix, glob or RegExp
+ */
+export function matchesPattern(id: SignalId, pattern: SignalPattern): boolean {
+	return compilePattern(pattern).test(id)
+}
@@ -0,0 +1,238 @@
+import type { ReactiveEngine, SignalId } from "./core"
+import type { SignalPattern } from "./pattern"
+
+// ================================
+// ▸ ADAPTERS
+// ================================
+
+/**
+ * Storage backend for persisted signals
+ * Any method may return a promise, so IndexedDB and other async stores can be plugged in
+ */
+export interface PersistAdapter {
+	getItem(key: string): string | null | undefined | Promise<string | null | undefined>
+	setItem(key: string, value: string): void | Promise<void>
+	removeItem(key: string): void | Promise<void>
+}
+
+function webStorageAdapter(getStorage: () => Storage | undefined): PersistAdapter {
+	// Resolved lazily so importing on the server or in a sandboxed iframe is safe
+	const storage = () => {
+		try {
+			return getStorage()
+		} catch {
+			return undefined
+		}
+	}
+
+	return {
+		getItem: (key) => storage()?.getItem(key),
+		setItem: (key, value) => storage()?.setItem(key, value),
+		removeItem: (key) => storage()?.removeItem(key),
+	}
+}
+
+/**
+ * Persist to `window.localStorage`; a no-op where it is unavailable (e.g. during SSR)
+ */
+export function localStorageAdapter(): PersistAdapter {
+	return webStorageAdapter(() => globalThis.localStorage)
+}
+
+/**
+ * Persist to `window.sessionStorage`; a no-op where it is unavailable (e.g. during SSR)
+ */
+export function sessionStorageAdapter(): PersistAdapter {
+	return webStorageAdapter(() => globalThis.sessionStorage)
+}
+
+/**
+ * Persist to an in-memory map, handy for tests and server rendering
+ *
+ * @param store - Optional map to share between adapters
+ */
+export function memoryAdapter(store: Map<string, string> = new Map()): PersistAdapter {
+	return {
+		getItem: (key) => store.get(key),
+		setItem: (key, value) => {
+			store.set(key, value)
+		},
+		removeItem: (key) => {
+			store.delete(key)
+		},
+	}
+}
+
+// ================================
+// ▸ PERSISTENCE
+// ================================
+
+/**
+ * Options for persisting a signal
+ */
+export interface PersistOptions<T = unknown> {
+	/** Storage backend (default: localStorage) */
+	adapter?: PersistAdapter
+	/** Storage key (default: the signal ID) */
+	key?: string
+	/** Version stored alongside the value; a mismatch runs `migrate` (default: 0) */
+	version?: number
+	/** Upgrade data stored under an older version; without it, outdated data is discarded */
+	migrate?: (oldVersion: number, data: unknown) => T
+	/** Wait this many milliseconds after the last change before writing (default: 0, write immediately) */
+	debounce?: number
+	/** Called when the adapter fails or stored data cannot be parsed */
+	onError?: (error: unknown) => void
+}
+
+/**
+ * Shape of the data written to storage
+ */
+interface PersistedValue {
+	version: number
+	value: unknown
+}
+
+function isPromise<T>(value: unknown): value is Promise<T> {
+	return typeof (value as Promise<T> | undefined)?.then === "function"
+}
+
+/**
+ * Hydrate a signal from storage and write its raw value back whenever it changes
+ * Hydration is synchronous with sync adapters; with async adapters the stored value is applied
+ * once loaded, unless the signal was changed in the meantime
+ *
+ * @param engine - Engine that owns the signal
+ * @param id - Signal identifier to persist
+ * @param options - Adapter, key, version, migration and debounce settings
+ * @returns Function that stops persisting, flushing any pending write first
+ */
+export function persistSignal<T>(engine: ReactiveEngine, id: SignalId, options: PersistOptions<T> = {}): () => void {
+	const { adapter = localStorageAdapter(), key = id, version = 0, migrate, debounce = 0, onError } = options
+
+	let changed = false
+	let hydrating = false
+	let timer: ReturnType<typeof setTimeout> | null = null
+	// Raw value of the last change, so a pending write still lands if the signal is gone by then
+	let latest: unknown
+
+	const run = (fn: () => unknown) => {
+		try {
+			const result = fn()
+			if (isPromise(result)) {
+				result.catch((error) => onError?.(error))
+			}
+		} catch (error) {
+			onError?.(error)
+		}
+	}
+
+	const write = (value: unknown = engine.getRawValue(id)) => {
+		timer = null
+		const data: PersistedValue = { version, value }
+		run(() => adapter.setItem(key, JSON.stringify(data)))
+	}
+
+	const hydrate = (stored: string | null | undefined) => {
+		if (stored == null || changed) return
+
+		let data: PersistedValue
+		try {
+			data = JSON.parse(stored)
+		} catch (error) {
+			onError?.(error)
+			return
+		}
+		// Nothing to apply without a stored value
+		if (typeof data !== "object" || data === null || !("value" in data)) return
+
+		let value = data.value
+		if (data.version !== version) {
+			if (!migrate) return
+			value = migrate(data.version, data.value)
+		}
+
+		hydrating = true
+		try {
+			engine.updateSignal(id, value)
+		} finally {
+			hydrating = false
+		}
+
+		if (data.version !== version) {
+			write()
+		}
+	}
+
+	const unsubscribe = engine.subscribe(
+		id,
+		() => {
+			if (hydrating) return
+			changed = true
+			latest = engine.getRawValue(id)
+
+			if (debounce <= 0) {
+				write(latest)
+				return
+			}
+			if (timer) clearTimeout(timer)
+			timer = setTimeout(() => write(latest), debounce)
+		},
+		{ weak: true }
+	)
+
+	run(() => {
+		const stored = adapter.getItem(key)
+		if (isPromise<string | null | undefined>(stored)) {
+			return stored.then(hydrate)
+		}
+		hydrate(stored)
+	})
+
+	return () => {
+		unsubscribe?.()
+		if (timer) {
+			clearTimeout(timer)
+			write(latest)
+		}
+	}
+}
+
+/**
+ * Persist every signal matching `pattern`, each under its own ID as key
+ * Signals created later are picked up as they appear
+ *
+ * @param engine - Engine that owns the signals
+ * @param pattern - Signal ID prefix, glob or RegExp to persist
+ * @param options - Adapter, version, migration and debounce settings shared by all signals
+ * @returns Function that stops persisting all of them
+ */
+export function persistMatching(
+	engine: ReactiveEngine,
+	pattern: SignalPattern,
+	options: Omit<PersistOptions, "key"> = {}
+): () => void {
+	const stops = new Map<SignalId, () => void>()
+	const persist = (id: SignalId) => {
+		if (!stops.has(id)) stops.set(id, persistSignal(engine, id, options))
+	}
+
+	for (const match of engine.query(pattern)) {
+		persist(match.id)
+	}
+	const stopCreated = engine.onSignalCreated(persist, pattern)
+	const stopRemoved = engine.onSignalRemoved((id) => {
+		// Flushes a pending write and stops the timer before the signal can be created again
+		stops.get(id)?.()
+		stops.delete(id)
+	}, pattern)
+
+	return () => {
+		stopCreated()
+		stopRemoved()
+		for (const stop of stops.values()) {
+			stop()
+		}
+		stops.clear()
+	}
+}
@@ -0,0 +1,114 @@
+export interface RateLimitOptions {
+	/** Milliseconds to wait */
+	wait: number
+	/** Run on the first call of a burst (default: false for debounce, true for throttle) */
+	leading?: boolean
+	/** Run once more after the burst with the latest value (default: true) */
+	trailing?: boolean
+}
+
+/**
+ * Wait in milliseconds, or the full options
+ */
+export type RateLimitOption = number | RateLimitOptions
+
+/**
+ * Rate limits for a signal's writes and for its notifications, set independently
+ * - `write`: the stored value, computed signals and everything downstream wait; `getRawValue` sees writes right away
+ * - `notify`: the value and computed signals update right away; only this signal's subscribers and bindings wait
+ */
+export interface RateLimitTargets {
+	write?: RateLimitOption
+	notify?: RateLimitOption
+}
+
+export type RateLimitMode = "debounce" | "throttle"
+
+export interface RateLimiter {
+	/** Run now or later, depending on the mode and where the current burst stands */
+	call(): void
+	/** Run a pending call right away */
+	flush(): void
+	/** Drop a pending call */
+	cancel(): void
+}
+
+/**
+ * Normalize `SignalOptions.debounce` / `throttle`; a bare wait or options object limits writes
+ */
+export function resolveRateLimitTargets(option: RateLimitOption | RateLimitTargets | undefined): RateLimitTargets {
+	if (option === undefined) return {}
+	if (typeof option === "number" || "wait" in option) return { write: option }
+	return option
+}
+
+/**
+ * Wrap `run` in a debounce or throttle
+ * Debounce runs once calls stop for `wait` ms; throttle runs at most once every `wait` ms
+ *
+ * @param mode - `debounce` or `throttle`
+ * @param option - Wait in milliseconds, or the full options
+ * @param run - Function to rate limit; it reads the latest state itself, so calls carry no arguments
+ */
+export function createRateLimiter(mode: RateLimitMode, option: RateLimitOption, run: () => void): RateLimiter {
+	const {
+		wait,
+		leading = mode === "throttle",
+		trailing = true,
+	} = typeof option === "number" ? { wait: option } : option
+	let timer: ReturnType<typeof setTimeout> | undefined
+	let pending = false
+
+	const start = () => {
+		timer = setTimeout(expire, wait)
+	}
+
+	const expire = () => {
+		timer = undefined
+		if (!pending) return
+
+		pending = false
+		if (trailing) {
+			run()
+			// A throttle keeps the window closed after a trailing run
+			if (mode === "throttle") start()
+		}
+	}
+
+	return {
+		call() {
+			if (timer === undefined) {
+				if (leading) {
+					run()
+				} else {
+					pending = true
+				}
+				start()
+				return
+			}
+
+			pending = true
+			if (mode === "debounce") {
+				clearTimeout(timer)
+				start()
+			}
+		},
+		flush() {
+			if (timer !== undefined) {
+				clearTimeout(timer)
+				timer = undefined
+			}
+			if (pending) {
+				pending = false
+				run()
+			}
+		},
+		cancel() {
+			if (timer !== undefined) {
+				clearTimeout(timer)
+				timer = undefined
+			}
+			pending = false
+		},
+	}
+}
@@ -1,5 +1,13 @@
-import { REACTIVE_CORE } from "./core"
-import type { BindingFunction, ConditionFunction, Signal, SignalId, TypedComputeFunction } from "./core"
+import type {
+	BindingFunction,
+	ConditionFunction,
+	Signal,
+	SignalId,
+	TrackedComputeFunction,
+	TypedComputeFunction,
+} from "./core"
+import type { BindingOptions } from "./scheduler"
+import { getCurrentEngine } from "./scope"
 
 type Notation = "dot" | "underscore" | "hyphen"
 
@@ -14,7 +22,7 @@ export const reactive = {
 	 * @param initialValue - Initial value for the signal
 	 */
 	createSignal<T>(id: SignalId, initialValue: T): Signal<T> {
-		return REACTIVE_CORE.createSignal(id, initialValue)
+		return getCurrentEngine().createSignal(id, initialValue)
 	},
 
 	/**
@@ -23,7 +31,7 @@ export const reactive = {
 	 * @param initialValue - Initial value to use if signal doesn't exist
 	 */
 	upsertSignal<T>(id: SignalId, initialValue: T): Signal<T> {
-		return REACTIVE_CORE.upsertSignal(id, initialValue)
+		return getCurrentEngine().upsertSignal(id, initialValue)
 	},
 
 	/**
@@ -32,7 +40,7 @@ export const reactive = {
 	 * @param value - New value to set
 	 */
 	updateSignal<T>(id: SignalId, value: T): void {
-		REACTIVE_CORE.updateSignal(id, value)
+		getCurrentEngine().updateSignal(id, value)
 	},
 
 	/**
@@ -41,7 +49,7 @@ export const reactive = {
 	 * @returns Current signal value or undefined if not found
 	 */
 	getValue<T>(id: SignalId): T | undefined {
-		return REACTIVE_CORE.getValue<T>(id)
+		return getCurrentEngine().getValue<T>(id)
 	},
 
 	/**
@@ -51,7 +59,16 @@ export const reactive = {
 	 * @param computeFn - Function to compute the value from dependencies
 	 */
 	createComputed<T>(id: SignalId, dependencies: SignalId[], computeFn: TypedComputeFunction<T>): void {
-		REACTIVE_CORE.createComputed(id, dependencies, computeFn)
+		getCurrentEngine().createComputed(id, dependencies, computeFn)
+	},
+
+	/**
+	 * Create a computed signal with automatically tracked dependencies
+	 * @param id - Unique computed signal identifier
+	 * @param computeFn - Function that reads other signals via `getValue` and returns the computed value
+	 */
+	createTrackedComputed<T>(id: SignalId, computeFn: TrackedComputeFunction<T>): void {
+		getCurrentEngine().createTrackedComputed(id, computeFn)
 	},
 
 	/**
@@ -59,10 +76,16 @@ export const reactive = {
 	 * @param element - DOM element to bind
 	 * @param signalId - Signal to bind to
 	 * @param bindingFn - Function to update the element when signal changes
+	 * @param options - Optional scheduler for this binding
 	 * @returns Cleanup function or null if binding failed
 	 */
-	bindElement(element: HTMLElement, signalId: SignalId, bindingFn: BindingFunction): (() => void) | null {
-		return REACTIVE_CORE.bindElement(element, signalId, bindingFn)
+	bindElement(
+		element: HTMLElement,
+		signalId: SignalId,
+		bindingFn: BindingFunction,
+		options?: BindingOptions
+	): (() => void) | null {
+		return getCurrentEngine().bindElement(element, signalId, bindingFn, options)
 	},
 
 	/**
@@ -72,15 +95,17 @@ export const reactive = {
 	 * @param signalId - Signal to bind to
 	 * @param condition - Function that determines if binding should update
 	 * @param bindingFn - Function to update the element when signal changes and condition is true
+	 * @param options - Optional scheduler for this binding
 	 * @returns Cleanup function or null if binding failed
 	 */
 	bindWhen<T>(
 		element: HTMLElement,
 		signalId: SignalId,
 		condition: ConditionFunction<T>,
-		bindingFn: BindingFunction<T>
+		bindingFn: BindingFunction<T>,
+		options?: BindingOptions
 	): (() => void) | null {
-		return REACTIVE_CORE.bindWhen(element, signalId, condition, bindingFn)
+		return getCurrentEngine().bindWhen(element, signalId, condition, bindingFn, options)
 	},
 
 	/**
@@ -89,7 +114,7 @@ export const reactive = {
 	 * @param fn - Function containing multiple signal updates
 	 */
 	batchUpdate(fn: () => void): void {
-		REACTIVE_CORE.batchUpdate(fn)
+		getCurrentEngine().batchUpdate(fn)
 	},
 
 	/**
@@ -97,7 +122,7 @@ export const reactive = {
 	 * @param id - Signal identifier to remove
 	 */
 	cleanup(id: SignalId): void {
-		REACTIVE_CORE.cleanup(id)
+		getCurrentEngine().cleanup(id)
 	},
 
 	/**
@@ -106,7 +131,7 @@ export const reactive = {
 	 */
 	create<T extends Record<string, unknown>>(signals: T): void {
 		for (const [id, value] of Object.entries(signals)) {
-			REACTIVE_CORE.upsertSignal(id, value)
+			getCurrentEngine().upsertSignal(id, value)
 		}
 	},
 
@@ -157,7 +182,7 @@ export const reactive = {
 	 */
 	createFromTuples(entries: Array<[string, unknown]>): void {
 		for (const [id, value] of entries) {
-			REACTIVE_CORE.upsertSignal(id, value)
+			getCurrentEngine().upsertSignal(id, value)
 		}
 	},
 }
@@ -0,0 +1,50 @@
+/**
+ * Map of signal IDs to their value types, empty by default
+ * Augment it to get autocompleted IDs and inferred, checked values across the API
+ *
+ * @example
+ * declare module "tiny-react-signals" {
+ *   interface SignalRegistry {
+ *     "user.name": string
+ *     "cart.items": CartItem[]
+ *   }
+ * }
+ *
+ * signal.set("user.name", 42) // Type error
+ * const name = signal.get("user.name") // string | undefined
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: Filled in by module augmentation
+export interface SignalRegistry {}
+
+/**
+ * IDs declared in the registry
+ */
+export type RegisteredSignalId = Extract<keyof SignalRegistry, string>
+
+/**
+ * Signal ID accepted by the API: registered IDs autocomplete, any other string still works
+ */
+export type SignalKey = RegisteredSignalId | (string & {})
+
+/**
+ * Widen literals inferred from an initial value, so `useSignal("count", 0)` holds a number
+ */
+type WidenLiteral<T> = T extends string
+	? string
+	: T extends number
+		? number
+		: T extends boolean
+			? boolean
+			: T extends bigint
+				? bigint
+				: T
+
+/**
+ * Value type of signal `K`
+ * An explicit type argument wins; otherwise registered IDs use their declared type and others use the inferred `T`
+ */
+export type SignalType<K extends string, T = unknown> = string extends K
+	? T
+	: K extends RegisteredSignalId
+		? SignalRegistry[K]
+		: WidenLiteral<T>
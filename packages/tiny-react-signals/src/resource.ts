@@ -0,0 +1,157 @@
+import type { ReactiveEngine, SignalId } from "./core"
+
+/**
+ * Lifecycle of a resource
+ * - `idle`: nothing has been fetched yet
+ * - `loading`: a fetch is in flight; `data` still holds the last successful result
+ * - `success`: `data` holds the latest result
+ * - `error`: the latest fetch failed; `data` still holds the last successful result
+ */
+export type ResourceStatus = "idle" | "loading" | "success" | "error"
+
+/**
+ * Value stored in a resource signal
+ */
+export interface ResourceState<T> {
+	status: ResourceStatus
+	data: T | undefined
+	error: unknown
+}
+
+/**
+ * Context passed to a resource fetcher
+ */
+export interface ResourceFetcherContext<T> {
+	/** Aborted as soon as a newer run supersedes this one or the resource is disposed */
+	signal: AbortSignal
+	/** Data from the last successful run */
+	previous: T | undefined
+}
+
+/**
+ * Async function that loads a resource from the current dependency values
+ */
+export type ResourceFetcher<T> = (dependencies: unknown[], context: ResourceFetcherContext<T>) => Promise<T>
+
+/**
+ * Options for creating a resource
+ */
+export interface ResourceOptions<T> {
+	/** Signal IDs whose changes trigger a new fetch */
+	deps?: SignalId[]
+	/** Data to expose before the first fetch finishes */
+	initialData?: T
+	/** Fetch as soon as the resource is created (default: true) */
+	immediate?: boolean
+}
+
+/**
+ * Handle for controlling a resource
+ */
+export interface Resource<T> {
+	/** ID of the signal holding the resource state */
+	id: SignalId
+	/** Current resource state */
+	get(): ResourceState<T> | undefined
+	/** Start a new fetch, aborting any run in flight */
+	refetch(): Promise<void>
+	/** Abort the run in flight, if any, and go back to the state from before it started */
+	abort(): void
+	/** Stop watching dependencies, abort the run in flight and remove the resource signal */
+	dispose(): void
+}
+
+function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === "AbortError"
+}
+
+/**
+ * Create a signal whose value is loaded by an async fetcher and reloaded whenever its dependencies change
+ *
+ * @param engine - Engine that owns the resource signal
+ * @param id - Unique signal identifier for the resource state
+ * @param fetcher - Async function receiving the dependency values and an abort signal
+ * @param options - Dependencies, initial data and whether to fetch immediately
+ * @returns Handle for refetching, aborting and disposing the resource
+ */
+export function createResource<T>(
+	engine: ReactiveEngine,
+	id: SignalId,
+	fetcher: ResourceFetcher<T>,
+	options: ResourceOptions<T> = {}
+): Resource<T> {
+	const { deps = [], initialData, immediate = true } = options
+
+	engine.createSignal<ResourceState<T>>(id, {
+		status: initialData === undefined ? "idle" : "success",
+		data: initialData,
+		error: undefined,
+	})
+
+	let controller: AbortController | null = null
+	// State from before the run in flight; superseding runs keep the one the first run started from
+	let settled: ResourceState<T> | undefined
+
+	const getState = () => engine.getValue<ResourceState<T>>(id)
+
+	const stop = () => {
+		controller?.abort()
+		controller = null
+	}
+
+	const abort = () => {
+		if (!controller) return
+		stop()
+		if (settled) {
+			engine.updateSignal<ResourceState<T>>(id, settled)
+		}
+	}
+
+	const refetch = async (): Promise<void> => {
+		if (!controller) {
+			settled = getState()
+		}
+		stop()
+		const current = new AbortController()
+		controller = current
+
+		const previous = getState()?.data
+		engine.updateSignal<ResourceState<T>>(id, { status: "loading", data: previous, error: undefined })
+
+		try {
+			const dependencies = deps.map((depId) => engine.getValue(depId))
+			const data = await fetcher(dependencies, { signal: current.signal, previous })
+			if (current.signal.aborted) return
+
+			engine.updateSignal<ResourceState<T>>(id, { status: "success", data, error: undefined })
+		} catch (error) {
+			if (current.signal.aborted || isAbortError(error)) return
+
+			engine.updateSignal<ResourceState<T>>(id, { status: "error", data: getState()?.data, error })
+		} finally {
+			if (controller === current) {
+				controller = null
+			}
+		}
+	}
+
+	const unsubscribers = deps.map((depId) => engine.subscribe(depId, () => void refetch()))
+
+	if (immediate) {
+		void refetch()
+	}
+
+	return {
+		id,
+		get: getState,
+		refetch,
+		abort,
+		dispose() {
+			for (const unsubscribe of unsubscribers) {
+				unsubscribe?.()
+			}
+			stop()
+			engine.cleanup(id)
+		},
+	}
+}
@@ -0,0 +1,39 @@
+/**
+ * When bindings run after a signal changes
+ * - `sync`: right away, inside the write (default)
+ * - `microtask`: once per microtask, with the latest value
+ * - `animationFrame`: once per frame, with the latest value
+ */
+export type SchedulerMode = "sync" | "microtask" | "animationFrame"
+
+/**
+ * Queues a flush of coalesced updates; swap these out to drive the scheduler from fake timers
+ */
+export interface SchedulerTiming {
+	microtask: (flush: () => void) => void
+	animationFrame: (flush: () => void) => void
+}
+
+export interface EngineOptions {
+	/** Default scheduler for element bindings (default: `sync`) */
+	scheduler?: SchedulerMode
+	/** Replace how microtasks and animation frames are queued */
+	timing?: Partial<SchedulerTiming>
+}
+
+export interface BindingOptions {
+	/** Scheduler for this binding; element bindings default to the engine's, subscribers to `sync` */
+	scheduler?: SchedulerMode
+}
+
+// Globals are looked up on every call, so fake timers installed after the engine was created still apply
+export const defaultTiming: SchedulerTiming = {
+	microtask: (flush) => queueMicrotask(flush),
+	animationFrame: (flush) => {
+		if (typeof requestAnimationFrame === "function") {
+			requestAnimationFrame(() => flush())
+		} else {
+			setTimeout(flush, 16)
+		}
+	},
+}
@@ -0,0 +1,69 @@
+import { REACTIVE_CORE } from "./core"
+import type { ReactiveEngine } from "./core"
+
+/**
+ * Function that returns the engine for the current execution context, if any
+ */
+export type EngineResolver = () => ReactiveEngine | null | undefined
+
+const engineStack: ReactiveEngine[] = []
+let engineResolver: EngineResolver | null = null
+
+/**
+ * Get the engine that signal calls should currently use
+ * Resolution order: innermost `runWithEngine` scope, then the registered resolver, then the global engine
+ *
+ * @returns The active engine
+ */
+export function getCurrentEngine(): ReactiveEngine {
+	return engineStack[engineStack.length - 1] ?? engineResolver?.() ?? REACTIVE_CORE
+}
+
+/**
+ * Run a function with `engine` as the current engine
+ * The scope only covers synchronous work; use `setEngineResolver` to carry it across async boundaries
+ *
+ * @param engine - Engine to use while `fn` runs
+ * @param fn - Function to run
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * const engine = createEngine()
+ * runWithEngine(engine, () => signal.create('user.name', 'Jane'))
+ */
+export function runWithEngine<T>(engine: ReactiveEngine, fn: () => T): T {
+	enterEngineScope(engine)
+	try {
+		return fn()
+	} finally {
+		exitEngineScope()
+	}
+}
+
+/**
+ * Make `engine` the current engine until the matching `exitEngineScope`
+ * Lets the engine run compute functions against itself without wrapping them in a closure
+ */
+export function enterEngineScope(engine: ReactiveEngine): void {
+	engineStack.push(engine)
+}
+
+export function exitEngineScope(): void {
+	engineStack.pop()
+}
+
+/**
+ * Register a resolver for the current engine, e.g. backed by AsyncLocalStorage on the server
+ * Pass `null` to remove it
+ *
+ * @param resolver - Function returning the engine for the current request, or nothing to fall back to the global engine
+ *
+ * @example
+ * const requestEngines = new AsyncLocalStorage<ReactiveEngine>()
+ * setEngineResolver(() => requestEngines.getStore())
+ *
+ * requestEngines.run(createEngine(), () => handleRequest(request))
+ */
+export function setEngineResolver(resolver: EngineResolver | null): void {
+	engineResolver = resolver
+}
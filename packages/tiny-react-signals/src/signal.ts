@@ -1,13 +1,25 @@
-import { REACTIVE_CORE } from "./core"
 import type {
 	BindingFunction,
 	CallbackFunction,
 	ComputeFunction,
 	ConditionFunction,
-	Signal,
+	RemoveOptions,
 	SignalId,
+	SignalLifecycleListener,
 	SignalOptions,
+	SignalSnapshot,
+	TrackedComputeFunction,
+	UpdateInterceptor,
 } from "./core"
+import { type SignalInstance, createSignalInstance } from "./handle"
+import { type History, type HistoryOptions, createHistory } from "./history"
+import type { SignalMatch, SignalPattern } from "./pattern"
+import { type PersistOptions, persistMatching } from "./persist"
+import type { SignalKey, SignalType } from "./registry"
+import { type Resource, type ResourceFetcher, type ResourceOptions, createResource } from "./resource"
+import type { BindingOptions } from "./scheduler"
+import { getCurrentEngine } from "./scope"
+import { type SyncOptions, syncSignals } from "./sync"
 
 /**
  * Direct signal API for creating and managing signals
@@ -18,9 +30,15 @@ export const signal = {
 	 * @param id - Unique signal identifier
 	 * @param initialValue - Initial value for the signal
 	 * @param options - Optional configuration including transformers
+	 * @returns Typed handle for reading, writing and binding the signal, with the signal's fields
 	 */
-	create<T>(id: SignalId, initialValue: T, options?: SignalOptions<T>): Signal<T> {
-		return REACTIVE_CORE.createSignal(id, initialValue, options)
+	create<T, K extends SignalKey = SignalKey>(
+		id: K,
+		initialValue: SignalType<K, T>,
+		options?: SignalOptions<SignalType<K, T>>
+	): SignalInstance<SignalType<K, T>> {
+		const engine = getCurrentEngine()
+		return createSignalInstance(engine, id, engine.createSignal(id, initialValue, options))
 	},
 
 	/**
@@ -28,9 +46,15 @@ export const signal = {
 	 * @param id - Unique signal identifier
 	 * @param initialValue - Initial value to use if signal doesn't exist
 	 * @param options - Optional configuration including transformers
+	 * @returns Typed handle for reading, writing and binding the signal, with the signal's fields
 	 */
-	upsert<T>(id: SignalId, initialValue: T, options?: SignalOptions<T>): Signal<T> {
-		return REACTIVE_CORE.upsertSignal(id, initialValue, options)
+	upsert<T, K extends SignalKey = SignalKey>(
+		id: K,
+		initialValue: SignalType<K, T>,
+		options?: SignalOptions<SignalType<K, T>>
+	): SignalInstance<SignalType<K, T>> {
+		const engine = getCurrentEngine()
+		return createSignalInstance(engine, id, engine.upsertSignal(id, initialValue, options))
 	},
 
 	/**
@@ -38,8 +62,8 @@ export const signal = {
 	 * @param id - Signal identifier
 	 * @param value - New value to set
 	 */
-	set<T>(id: SignalId, value: T): void {
-		REACTIVE_CORE.updateSignal(id, value)
+	set<T, K extends SignalKey = SignalKey>(id: K, value: SignalType<K, T>): void {
+		getCurrentEngine().updateSignal(id, value)
 	},
 
 	/**
@@ -47,8 +71,8 @@ export const signal = {
 	 * @param id - Signal identifier
 	 * @returns Current signal value or undefined if not found
 	 */
-	get<T>(id: SignalId): T | undefined {
-		return REACTIVE_CORE.getValue<T>(id)
+	get<T = unknown, K extends SignalKey = SignalKey>(id: K): SignalType<K, T> | undefined {
+		return getCurrentEngine().getValue<SignalType<K, T>>(id)
 	},
 
 	/**
@@ -56,8 +80,8 @@ export const signal = {
 	 * @param id - Signal identifier
 	 * @returns Current raw signal value or undefined if not found
 	 */
-	getRawValue<T>(id: SignalId): T | undefined {
-		return REACTIVE_CORE.getRawValue<T>(id)
+	getRawValue<T = unknown, K extends SignalKey = SignalKey>(id: K): SignalType<K, T> | undefined {
+		return getCurrentEngine().getRawValue<SignalType<K, T>>(id)
 	},
 
 	/**
@@ -67,8 +91,73 @@ export const signal = {
 	 * @param computeFn - Function to compute the value from dependencies
 	 * @param options - Optional configuration including transformers
 	 */
-	computed<T>(id: SignalId, dependencies: SignalId[], computeFn: ComputeFunction<T>, options?: SignalOptions<T>): void {
-		REACTIVE_CORE.createComputed(id, dependencies, computeFn, options)
+	computed<T, K extends SignalKey = SignalKey>(
+		id: K,
+		dependencies: SignalKey[],
+		computeFn: ComputeFunction<SignalType<K, T>>,
+		options?: SignalOptions<SignalType<K, T>>
+	): void {
+		getCurrentEngine().createComputed(id, dependencies, computeFn, options)
+	},
+
+	/**
+	 * Create a computed signal whose dependencies are tracked automatically
+	 * Every signal read through `signal.get` while computing becomes a dependency,
+	 * and dependencies are re-collected on every run so conditional reads work
+	 * @param id - Unique computed signal identifier
+	 * @param computeFn - Function that reads other signals and returns the computed value
+	 * @param options - Optional configuration including transformers
+	 */
+	derive<T, K extends SignalKey = SignalKey>(
+		id: K,
+		computeFn: TrackedComputeFunction<SignalType<K, T>>,
+		options?: SignalOptions<SignalType<K, T>>
+	): void {
+		getCurrentEngine().createTrackedComputed(id, computeFn, options)
+	},
+
+	/**
+	 * Create an async resource signal holding `{ status, data, error }`
+	 * The fetcher runs again whenever a dependency changes; superseded runs are aborted
+	 * @param id - Unique signal identifier for the resource state
+	 * @param fetcher - Async function receiving the dependency values and an abort signal
+	 * @param options - Dependencies, initial data and whether to fetch immediately
+	 * @returns Handle for refetching, aborting and disposing the resource
+	 */
+	resource<T>(id: SignalId, fetcher: ResourceFetcher<T>, options?: ResourceOptions<T>): Resource<T> {
+		return createResource(getCurrentEngine(), id, fetcher, options)
+	},
+
+	/**
+	 * Record changes to a set of signals for undo/redo
+	 * Each batch is recorded as a single entry
+	 * @param ids - Signal identifiers to record
+	 * @param options - History ID prefix and maximum number of entries
+	 * @returns Handle with `undo()`, `redo()` and the IDs of the `canUndo` / `canRedo` signals
+	 */
+	history(ids: SignalId[], options?: HistoryOptions): History {
+		return createHistory(getCurrentEngine(), ids, options)
+	},
+
+	/**
+	 * Persist every signal matching `pattern`, including signals created later
+	 * @param pattern - Signal ID prefix, glob or RegExp to persist
+	 * @param options - Adapter, version, migration and debounce settings
+	 * @returns Cleanup function that stops persisting
+	 */
+	persist(pattern: SignalPattern, options?: Omit<PersistOptions, "key">): () => void {
+		return persistMatching(getCurrentEngine(), pattern, options)
+	},
+
+	/**
+	 * Sync signals with other tabs of the app
+	 * Concurrent writes resolve last-writer-wins by a logical clock
+	 * @param patterns - Signal ID prefix, glob or RegExp, or a list of them, to sync
+	 * @param options - Channel (default: BroadcastChannel) and origin
+	 * @returns Cleanup function that stops syncing
+	 */
+	sync(patterns: SignalPattern | SignalPattern[], options?: SyncOptions): () => void {
+		return syncSignals(getCurrentEngine(), patterns, options)
 	},
 
 	/**
@@ -76,10 +165,16 @@ export const signal = {
 	 * @param element - DOM element to bind
 	 * @param signalId - Signal to bind to
 	 * @param bindingFn - Function to update the element when signal changes
+	 * @param options - Optional scheduler for this binding
 	 * @returns Cleanup function or null if binding failed
 	 */
-	bind<T>(element: HTMLElement, signalId: SignalId, bindingFn: BindingFunction<T>): (() => void) | null {
-		return REACTIVE_CORE.bindElement(element, signalId, bindingFn as BindingFunction<unknown>)
+	bind<T, K extends SignalKey = SignalKey>(
+		element: HTMLElement,
+		signalId: K,
+		bindingFn: BindingFunction<SignalType<K, T>>,
+		options?: BindingOptions
+	): (() => void) | null {
+		return getCurrentEngine().bindElement(element, signalId, bindingFn as BindingFunction<unknown>, options)
 	},
 
 	/**
@@ -89,16 +184,18 @@ export const signal = {
 	 * @param signalId - Signal to bind to
 	 * @param condition - Function that determines if binding should update
 	 * @param bindingFn - Function to update the element when signal changes and condition is true
+	 * @param options - Optional scheduler for this binding
 	 * @returns Cleanup function or null if binding failed
 	 */
 	// TODO: Support ref binding too
-	bindWhen<T>(
+	bindWhen<T, K extends SignalKey = SignalKey>(
 		element: HTMLElement,
-		signalId: SignalId,
-		condition: ConditionFunction<T>,
-		bindingFn: BindingFunction<T>
+		signalId: K,
+		condition: ConditionFunction<SignalType<K, T>>,
+		bindingFn: BindingFunction<SignalType<K, T>>,
+		options?: BindingOptions
 	): (() => void) | null {
-		return REACTIVE_CORE.bindWhen(element, signalId, condition, bindingFn as BindingFunction<unknown>)
+		return getCurrentEngine().bindWhen(element, signalId, condition, bindingFn as BindingFunction<unknown>, options)
 	},
 
 	/**
@@ -107,25 +204,85 @@ export const signal = {
 	 * @param fn - Function containing multiple signal updates
 	 */
 	batch(fn: () => void): void {
-		REACTIVE_CORE.batchUpdate(fn)
+		getCurrentEngine().batchUpdate(fn)
+	},
+
+	/**
+	 * Capture the raw values of all plain signals; computed signals are left out
+	 * @param filter - Optional signal ID prefix, glob or RegExp to limit the snapshot to
+	 * @returns Serializable object of raw values keyed by signal ID
+	 */
+	snapshot(filter?: SignalPattern): SignalSnapshot {
+		return getCurrentEngine().snapshot(filter)
+	},
+
+	/**
+	 * Apply a snapshot in a single batch, creating missing signals, then recompute every computed signal
+	 * @param snapshot - Raw values keyed by signal ID, as returned by `snapshot()`
+	 */
+	restore(snapshot: SignalSnapshot): void {
+		getCurrentEngine().restore(snapshot)
 	},
 
 	/**
 	 * Remove a signal and clean up its bindings
+	 * Computed signals depending on it are frozen at their current value unless another `cascade` policy is given
 	 * @param id - Signal identifier to remove
+	 * @param options - `cascade`: "refuse" to throw while dependents exist, "cascade" to remove them, or "detach"
+	 */
+	remove(id: SignalKey, options?: RemoveOptions): void {
+		getCurrentEngine().cleanup(id, options)
+	},
+
+	/**
+	 * Intercept writes to one signal, or to every signal when no ID is given
+	 * Return a replacement value, or `CANCEL_UPDATE` to reject the write
+	 * @param interceptor - Function receiving `{ id, prev, next }`
+	 * @param id - Optional signal identifier to limit the interceptor to
+	 * @returns Cleanup function, or null if the signal does not exist
 	 */
-	remove(id: SignalId): void {
-		REACTIVE_CORE.cleanup(id)
+	intercept<T>(interceptor: UpdateInterceptor<T>, id?: SignalId): (() => void) | null {
+		return getCurrentEngine().addInterceptor(interceptor, id)
 	},
 
 	/**
 	 * Subscribe to a signal for changes
 	 * @param id - Signal identifier
 	 * @param callback - Function to call when signal changes
+	 * @param options - Optional scheduler; subscribers run synchronously by default
 	 * @returns Cleanup function or null if subscription failed
 	 */
-	subscribe<T>(id: SignalId, callback: CallbackFunction<T>): (() => void) | null {
-		return REACTIVE_CORE.subscribe(id, callback)
+	subscribe<T, K extends SignalKey = SignalKey>(
+		id: K,
+		callback: CallbackFunction<SignalType<K, T>>,
+		options?: BindingOptions
+	): (() => void) | null {
+		return getCurrentEngine().subscribe(id, callback, options)
+	},
+
+	/**
+	 * Keep an `autoDispose` signal alive without subscribing to it
+	 * @param id - Signal identifier
+	 * @returns Release function or null if the signal does not exist
+	 */
+	retain(id: SignalKey): (() => void) | null {
+		return getCurrentEngine().retain(id)
+	},
+
+	/**
+	 * Apply a signal's debounced or throttled write and notification right away
+	 * @param id - Signal identifier
+	 */
+	flush(id: SignalKey): void {
+		getCurrentEngine().flush(id)
+	},
+
+	/**
+	 * Drop a signal's debounced or throttled write and notification
+	 * @param id - Signal identifier
+	 */
+	cancel(id: SignalKey): void {
+		getCurrentEngine().cancel(id)
 	},
 
 	/**
@@ -133,14 +290,54 @@ export const signal = {
 	 * @returns Array of active signal IDs
 	 */
 	getActiveSignals(): SignalId[] {
-		return REACTIVE_CORE.getActiveSignals()
+		return getCurrentEngine().getActiveSignals()
+	},
+
+	/**
+	 * Find the signals matching a pattern
+	 * @param pattern - Prefix, glob (e.g., "todo.{id}.done") or RegExp with named groups
+	 * @returns Matching signal IDs and values, with the pattern's named captures
+	 */
+	query(pattern: SignalPattern): SignalMatch[] {
+		return getCurrentEngine().query(pattern)
+	},
+
+	/**
+	 * Listen for new signals, including computed ones
+	 * @param listener - Function receiving the ID of each created signal
+	 * @param pattern - Optional prefix, glob or RegExp limiting the IDs reported
+	 * @returns Cleanup function that stops listening
+	 */
+	onSignalCreated(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return getCurrentEngine().onSignalCreated(listener, pattern)
+	},
+
+	/**
+	 * Listen for removed signals
+	 * @param listener - Function receiving the ID of each removed signal
+	 * @param pattern - Optional prefix, glob or RegExp limiting the IDs reported
+	 * @returns Cleanup function that stops listening
+	 */
+	onSignalRemoved(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return getCurrentEngine().onSignalRemoved(listener, pattern)
+	},
+
+	/**
+	 * Listen for new computed signals, tracked or not
+	 * @param listener - Function receiving the ID of each registered computed signal
+	 * @param pattern - Optional prefix, glob or RegExp limiting the IDs reported
+	 * @returns Cleanup function that stops listening
+	 */
+	onComputedRegistered(listener: SignalLifecycleListener, pattern?: SignalPattern): () => void {
+		return getCurrentEngine().onComputedRegistered(listener, pattern)
 	},
 
 	/**
-	 * Remove all signals matching a prefix pattern
-	 * @param pattern - Prefix to match (e.g., "user." to remove all user signals)
+	 * Remove all signals matching a pattern
+	 * @param pattern - Prefix (e.g., "user." to remove all user signals), glob (e.g., "cart.**") or RegExp
+	 * @param options - Policy for computed signals outside the pattern that depend on removed ones
 	 */
-	removeByPrefix(pattern: string): void {
-		REACTIVE_CORE.cleanupMatching(pattern)
+	removeByPrefix(pattern: SignalPattern, options?: RemoveOptions): void {
+		getCurrentEngine().cleanupMatching(pattern, options)
 	},
 }
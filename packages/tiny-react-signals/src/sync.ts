@@ -0,0 +1,208 @@
+import type { ReactiveEngine, SignalId } from "./core"
+import { type SignalPattern, matchesPattern } from "./pattern"
+
+// ================================
+// ▸ CHANNELS
+// ================================
+
+/**
+ * Message sent between synced engines
+ * `clock` and `origin` together order concurrent writes: higher clock wins, ties go to the higher origin
+ */
+export interface SyncMessage {
+	id: SignalId
+	value: unknown
+	clock: number
+	origin: string
+}
+
+/**
+ * Transport used to exchange sync messages with other tabs
+ * Messages must not be delivered back to the channel that posted them
+ */
+export interface SyncChannel {
+	postMessage(message: SyncMessage): void
+	subscribe(listener: (message: SyncMessage) => void): () => void
+	close?(): void
+}
+
+/**
+ * Sync over a `BroadcastChannel`; a no-op where it is unavailable (e.g. during SSR)
+ *
+ * @param name - Channel name shared by all tabs of the app
+ */
+export function broadcastChannel(name = "tiny-react-signals"): SyncChannel {
+	if (typeof BroadcastChannel === "undefined") {
+		return { postMessage: () => {}, subscribe: () => () => {} }
+	}
+
+	const channel = new BroadcastChannel(name)
+	return {
+		postMessage: (message) => channel.postMessage(message),
+		subscribe(listener) {
+			const handler = (event: MessageEvent<SyncMessage>) => listener(event.data)
+			channel.addEventListener("message", handler)
+			return () => channel.removeEventListener("message", handler)
+		},
+		close: () => channel.close(),
+	}
+}
+
+const memoryChannels = new Map<string, Set<(message: SyncMessage) => void>>()
+
+/**
+ * In-process channel: every memory channel with the same name receives the others' messages
+ * Delivery is synchronous, which makes it handy for tests and Node
+ *
+ * @param name - Channel name shared by the engines to sync
+ */
+export function memoryChannel(name = "tiny-react-signals"): SyncChannel {
+	let peers = memoryChannels.get(name)
+	if (!peers) {
+		peers = new Set()
+		memoryChannels.set(name, peers)
+	}
+	const listeners = new Set<(message: SyncMessage) => void>()
+
+	const receive = (message: SyncMessage) => {
+		for (const listener of listeners) {
+			listener(message)
+		}
+	}
+	peers.add(receive)
+
+	return {
+		postMessage(message) {
+			for (const peer of peers) {
+				if (peer !== receive) peer(structuredClone(message))
+			}
+		},
+		subscribe(listener) {
+			listeners.add(listener)
+			return () => listeners.delete(listener)
+		},
+		close() {
+			listeners.clear()
+			peers.delete(receive)
+		},
+	}
+}
+
+// ================================
+// ▸ SYNC
+// ================================
+
+/**
+ * Options for syncing signals across tabs
+ */
+export interface SyncOptions {
+	/** Transport for sync messages (default: `broadcastChannel()`) */
+	channel?: SyncChannel
+	/** Unique ID of this engine, used to break clock ties (default: random) */
+	origin?: string
+}
+
+interface SyncStamp {
+	clock: number
+	origin: string
+}
+
+function isNewer(a: SyncStamp, b: SyncStamp | undefined): boolean {
+	if (!b) return true
+	return a.clock > b.clock || (a.clock === b.clock && a.origin > b.origin)
+}
+
+/**
+ * Keep signals matching one of `patterns` in sync with other tabs
+ * Local changes are broadcast as raw values; remote ones are applied with `updateSignal` without being echoed back
+ * Concurrent writes resolve last-writer-wins by a Lamport clock
+ * Signals created later are picked up as they appear; remote writes to signals missing locally are ignored
+ *
+ * @param engine - Engine that owns the signals
+ * @param patterns - Signal ID prefixes, globs or RegExps to sync
+ * @param options - Channel and origin
+ * @returns Function that stops syncing and closes the channel
+ */
+export function syncSignals(
+	engine: ReactiveEngine,
+	patterns: SignalPattern | SignalPattern[],
+	options: SyncOptions = {}
+): () => void {
+	const { channel = broadcastChannel(), origin = Math.random().toString(36).slice(2) } = options
+	const patternList = Array.isArray(patterns) ? patterns : [patterns]
+
+	let clock = 0
+	// Raw value each remote write left behind; notifications can arrive later (e.g. with `debounce: { notify }`)
+	const remoteValues = new Map<SignalId, unknown>()
+	const stamps = new Map<SignalId, SyncStamp>()
+	const unsubscribers = new Map<SignalId, () => void>()
+
+	const matches = (id: SignalId) => patternList.some((pattern) => matchesPattern(id, pattern))
+
+	const watch = (id: SignalId) => {
+		if (unsubscribers.has(id)) return true
+
+		const unsubscribe = engine.subscribe(
+			id,
+			() => {
+				const value = engine.getRawValue(id)
+				if (remoteValues.has(id)) {
+					const remote = remoteValues.get(id)
+					remoteValues.delete(id)
+					if (Object.is(remote, value)) return
+				}
+
+				const stamp = { clock: ++clock, origin }
+				stamps.set(id, stamp)
+				channel.postMessage({ id, value, ...stamp })
+			},
+			{ weak: true }
+		)
+		if (!unsubscribe) return false
+
+		unsubscribers.set(id, unsubscribe)
+		return true
+	}
+
+	for (const pattern of patternList) {
+		for (const match of engine.query(pattern)) {
+			watch(match.id)
+		}
+	}
+
+	const stopCreated = engine.onSignalCreated((id) => {
+		if (matches(id)) watch(id)
+	})
+	const stopRemoved = engine.onSignalRemoved((id) => {
+		unsubscribers.delete(id)
+		stamps.delete(id)
+		remoteValues.delete(id)
+	})
+
+	const stopListening = channel.subscribe((message) => {
+		clock = Math.max(clock, message.clock)
+		if (!matches(message.id) || !watch(message.id)) return
+
+		const stamp = { clock: message.clock, origin: message.origin }
+		if (!isNewer(stamp, stamps.get(message.id))) return
+		stamps.set(message.id, stamp)
+
+		remoteValues.set(message.id, message.value)
+		engine.updateSignal(message.id, message.value)
+		// Still pending when the notification is deferred; keep what was actually stored
+		if (remoteValues.has(message.id)) {
+			remoteValues.set(message.id, engine.getRawValue(message.id))
+		}
+	})
+
+	return () => {
+		stopListening()
+		stopCreated()
+		stopRemoved()
+		for (const unsubscribe of unsubscribers.values()) {
+			unsubscribe()
+		}
+		unsubscribers.clear()
+		channel.close?.()
+	}
+}
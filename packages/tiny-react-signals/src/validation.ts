@@ -0,0 +1,104 @@
+import type { SignalId } from "./core"
+
+// ================================
+// ▸ STANDARD SCHEMA
+// ================================
+
+/**
+ * Minimal copy of the Standard Schema v1 interface (https://standardschema.dev)
+ * Any library implementing it (zod, valibot, arktype, ...) plugs in without a dependency
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1
+		readonly vendor: string
+		readonly validate: (value: unknown) => StandardSchemaV1.Result<Output> | Promise<StandardSchemaV1.Result<Output>>
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined
+	}
+}
+
+export declare namespace StandardSchemaV1 {
+	type Result<Output> = SuccessResult<Output> | FailureResult
+
+	interface SuccessResult<Output> {
+		readonly value: Output
+		readonly issues?: undefined
+	}
+
+	interface FailureResult {
+		readonly issues: ReadonlyArray<ValidationIssue>
+	}
+}
+
+// ================================
+// ▸ VALIDATION
+// ================================
+
+/**
+ * A single validation problem, shaped like a Standard Schema issue
+ */
+export interface ValidationIssue {
+	readonly message: string
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+/**
+ * Plain validation function: return issues for an invalid value, nothing for a valid one
+ */
+export type ValidatorFunction<T> = (value: T) => ReadonlyArray<ValidationIssue> | null | undefined
+
+/**
+ * Validator accepted by `SignalOptions.validate`
+ */
+export type SignalValidator<T> = StandardSchemaV1<T> | ValidatorFunction<T>
+
+/**
+ * What happens to an invalid write
+ * - `reject`: keep the current value (default)
+ * - `store`: store the invalid value anyway
+ */
+export type ValidationMode = "reject" | "store"
+
+/**
+ * Outcome of running a validator; `value` is the schema output for valid values
+ */
+export interface ValidationResult<T> {
+	value: T
+	issues: ReadonlyArray<ValidationIssue> | null
+}
+
+function isStandardSchema<T>(validator: SignalValidator<T>): validator is StandardSchemaV1<T> {
+	return typeof validator === "object" && validator !== null && "~standard" in validator
+}
+
+/**
+ * Turn a Standard Schema or validation function into a synchronous check
+ * Async schemas are not supported because signal writes are synchronous
+ */
+export function normalizeValidator<T>(validator: SignalValidator<T>): (value: T) => ValidationResult<T> {
+	if (!isStandardSchema(validator)) {
+		return (value) => {
+			const issues = validator(value)
+			return { value, issues: issues && issues.length > 0 ? issues : null }
+		}
+	}
+
+	return (value) => {
+		const result = validator["~standard"].validate(value)
+		if (result instanceof Promise) {
+			throw new TypeError("Signal validators must be synchronous; async schemas are not supported")
+		}
+		return result.issues ? { value, issues: result.issues } : { value: result.value, issues: null }
+	}
+}
+
+/**
+ * ID of the signal holding the validation issues of `id`
+ * Its value is `null` while the signal is valid, otherwise the list of issues
+ *
+ * @example
+ * const [issues] = useSignal(getIssuesSignalId('form.email'), null)
+ */
+export function getIssuesSignalId(id: SignalId): SignalId {
+	return `${id}:issues`
+}
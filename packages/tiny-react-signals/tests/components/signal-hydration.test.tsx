@@ -0,0 +1,144 @@
+import { render } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { act } from "react"
+import { hydrateRoot } from "react-dom/client"
+import { renderToString } from "react-dom/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { Signal } from "../../src/components/signal"
+import { SignalHydration } from "../../src/components/signal-hydration"
+import { SignalEngineProvider } from "../../src/context"
+import { REACTIVE_CORE, createEngine } from "../../src/core"
+import { useSignal } from "../../src/hooks/use-signal"
+import { HYDRATION_SCRIPT_ID, hydrateSignals } from "../../src/hydration"
+
+describe("SignalHydration Component Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	afterEach(() => {
+		document.body.innerHTML = ""
+		vi.restoreAllMocks()
+	})
+
+	it("should inline the engine snapshot as a JSON script", () => {
+		const engine = createEngine()
+		engine.createSignal("user.name", "<Ada>")
+
+		const html = renderToString(
+			<SignalEngineProvider engine={engine}>
+				<SignalHydration />
+			</SignalEngineProvider>
+		)
+
+		expect(html).toBe(
+			`<script type="application/json" id="${HYDRATION_SCRIPT_ID}">{"user.name":"\\u003cAda\\u003e"}</script>`
+		)
+	})
+
+	it("should filter by prefix and pass the nonce", () => {
+		const engine = createEngine()
+		engine.createSignal("user.name", "Ada")
+		engine.createSignal("session.token", "secret")
+
+		const html = renderToString(
+			<SignalEngineProvider engine={engine}>
+				<SignalHydration filter="user." nonce="xyz" id="state" />
+			</SignalEngineProvider>
+		)
+
+		expect(html).toContain('id="state"')
+		expect(html).toContain('nonce="xyz"')
+		expect(html).not.toContain("secret")
+	})
+
+	it("should keep the server markup when rendered on the client", () => {
+		const { container } = render(<SignalHydration id="client-only" />)
+		expect(container.querySelector("script")?.textContent).toBe("{}")
+	})
+
+	it("should round-trip server state into a hydrated client", async () => {
+		const serverEngine = createEngine()
+		serverEngine.createSignal("user.name", "Ada")
+
+		const App = () => (
+			<div>
+				<Signal id="user.name" />
+				<SignalHydration />
+			</div>
+		)
+
+		const container = document.createElement("div")
+		container.innerHTML = renderToString(
+			<SignalEngineProvider engine={serverEngine}>
+				<App />
+			</SignalEngineProvider>
+		)
+		document.body.appendChild(container)
+
+		const clientEngine = createEngine()
+		hydrateSignals({ engine: clientEngine })
+		const recoverableError = vi.fn()
+		let root: ReturnType<typeof hydrateRoot> | undefined
+
+		await act(async () => {
+			root = hydrateRoot(
+				container,
+				<SignalEngineProvider engine={clientEngine}>
+					<App />
+				</SignalEngineProvider>,
+				{ onRecoverableError: recoverableError }
+			)
+		})
+
+		expect(recoverableError).not.toHaveBeenCalled()
+		expect(container.querySelector("span")?.textContent).toBe("Ada")
+
+		act(() => root?.unmount())
+	})
+
+	it("should hydrate signals whose hooks transform the value", async () => {
+		const Name = () => {
+			const [name] = useSignal("user.name", "abc", { transform: (value: string) => value.toUpperCase() })
+			return (
+				<div>
+					<p>{name}</p>
+					<SignalHydration />
+				</div>
+			)
+		}
+
+		const serverEngine = createEngine()
+		const container = document.createElement("div")
+		container.innerHTML = renderToString(
+			<SignalEngineProvider engine={serverEngine}>
+				<Name />
+			</SignalEngineProvider>
+		)
+		document.body.appendChild(container)
+
+		const clientEngine = createEngine()
+		hydrateSignals({ engine: clientEngine })
+		const recoverableError = vi.fn()
+		let root: ReturnType<typeof hydrateRoot> | undefined
+
+		await act(async () => {
+			root = hydrateRoot(
+				container,
+				<SignalEngineProvider engine={clientEngine}>
+					<Name />
+				</SignalEngineProvider>,
+				{ onRecoverableError: recoverableError }
+			)
+		})
+
+		expect(recoverableError).not.toHaveBeenCalled()
+		expect(container.querySelector("p")?.textContent).toBe("ABC")
+
+		act(() => root?.unmount())
+	})
+})
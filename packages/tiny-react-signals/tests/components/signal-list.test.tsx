@@ -1,6 +1,7 @@
 import { act, fireEvent, render } from "@testing-library/react"
 // biome-ignore lint/correctness/noUnusedImports: UMD shit talk
 import * as React from "react"
+import { renderToString } from "react-dom/server"
 import { beforeEach, describe, expect, it, vi } from "vitest"
 import { SignalList } from "../../src/components/signal-list"
 import { REACTIVE_CORE } from "../../src/core"
@@ -277,8 +278,34 @@ describe("SignalList Component Test Suite", () => {
 				REACTIVE_CORE.createSignal("product.2.name", "Product 2")
 			})
 
-			// Note: In current implementation, new signals won't be auto-detected
-			// This is a limitation that could be addressed in future versions
+			expect(element.innerHTML).toContain("Product 2")
+
+			// Signals created after mount are subscribed to as well
+			act(() => {
+				REACTIVE_CORE.updateSignal("product.2.name", "Product 2 (sale)")
+			})
+
+			expect(element.innerHTML).toContain("Product 2 (sale)")
+		})
+
+		it("should drop items whose signals are removed", () => {
+			REACTIVE_CORE.createSignal("note.1.text", "Keep")
+			REACTIVE_CORE.createSignal("note.2.text", "Drop")
+
+			const { container } = render(
+				<SignalList pattern="note.{id}.text" keyBy="id">
+					{(_: string, signals: any) => <span>{signals.text}</span>}
+				</SignalList>
+			)
+			const element = container.firstChild as HTMLElement
+
+			expect(element.textContent).toBe("KeepDrop")
+
+			act(() => {
+				REACTIVE_CORE.cleanup("note.2.text")
+			})
+
+			expect(element.textContent).toBe("Keep")
 		})
 
 		it("should handle nested signal properties correctly", () => {
@@ -300,6 +327,62 @@ describe("SignalList Component Test Suite", () => {
 			expect(element.innerHTML).toContain("1: John (john@example.com)")
 			expect(element.innerHTML).toContain("Theme: dark")
 		})
+
+		it("should key nested items by the id capture of a glob", () => {
+			REACTIVE_CORE.createSignal("board.todo.tasks.1.title", "Design")
+			REACTIVE_CORE.createSignal("board.todo.tasks.1.meta.owner", "Ada")
+			REACTIVE_CORE.createSignal("board.done.tasks.2.title", "Ship")
+			REACTIVE_CORE.createSignal("board.todo.name", "To do")
+
+			const { container } = render(
+				<SignalList pattern="board.*.tasks.{id}.**" keyBy="id">
+					{(itemId: string, signals: any) => (
+						<div>
+							{itemId}: {signals.title} {signals["meta.owner"] ?? "-"}
+						</div>
+					)}
+				</SignalList>
+			)
+			const element = container.firstChild as HTMLElement
+
+			expect(element.querySelectorAll("li")).toHaveLength(2)
+			expect(element.innerHTML).toContain("1: Design Ada")
+			expect(element.innerHTML).toContain("2: Ship -")
+
+			act(() => {
+				REACTIVE_CORE.updateSignal("board.done.tasks.2.title", "Shipped")
+			})
+
+			expect(element.innerHTML).toContain("2: Shipped -")
+		})
+
+		it("should key items by the first wildcard or a RegExp id group", () => {
+			REACTIVE_CORE.createSignal("row.a.cell", 1)
+			REACTIVE_CORE.createSignal("row.b.cell", 2)
+			REACTIVE_CORE.createSignal("col.a.cell", 3)
+
+			const { container } = render(
+				<div>
+					<SignalList pattern="row.*.cell" keyBy="id" className="glob">
+						{(itemId: string, signals: any) => (
+							<span>
+								{itemId}={signals.cell}
+							</span>
+						)}
+					</SignalList>
+					<SignalList pattern={/^col\.(?<id>\w+)\.\w+$/} keyBy="id" className="regexp">
+						{(itemId: string, signals: any) => (
+							<span>
+								{itemId}={signals.cell}
+							</span>
+						)}
+					</SignalList>
+				</div>
+			)
+
+			expect(container.querySelector(".glob")?.textContent).toBe("a=1b=2")
+			expect(container.querySelector(".regexp")?.textContent).toBe("a=3")
+		})
 	})
 
 	describe("Event Handling", () => {
@@ -632,4 +715,71 @@ describe("SignalList Component Test Suite", () => {
 			expect(element.innerHTML).toContain("User")
 		})
 	})
+
+	describe("Server Rendering", () => {
+		it("should render array items instead of the placeholder", () => {
+			REACTIVE_CORE.createSignal("ssr.todos", [
+				{ id: 1, text: "Write" },
+				{ id: 2, text: "Ship" },
+			])
+
+			const html = renderToString(
+				<SignalList id="ssr.todos" keyBy="id">
+					{(todo: { text: string }) => <span>{todo.text}</span>}
+				</SignalList>
+			)
+
+			expect(html).toBe('<ul><li data-key="1"><span>Write</span></li><li data-key="2"><span>Ship</span></li></ul>')
+		})
+
+		it("should keep list elements returned by the render function", () => {
+			REACTIVE_CORE.createSignal("ssr.tags", [{ id: "a", name: "news" }])
+
+			const html = renderToString(
+				<SignalList id="ssr.tags" keyBy="id" type="ol">
+					{(tag: { name: string }) => <li className="tag">{tag.name}</li>}
+				</SignalList>
+			)
+
+			expect(html).toBe('<ol><li class="tag" data-key="a">news</li></ol>')
+		})
+
+		it("should render pattern items", () => {
+			REACTIVE_CORE.createSignal("todo.1.text", "Write")
+			REACTIVE_CORE.createSignal("todo.2.text", "Ship")
+
+			const html = renderToString(
+				<SignalList pattern="todo." keyBy="id">
+					{(itemId: string, signals: Record<string, unknown>) => <span>{`${itemId}: ${signals.text}`}</span>}
+				</SignalList>
+			)
+
+			expect(html).toContain('<li data-key="1"><span>1: Write</span></li>')
+			expect(html).toContain('<li data-key="2"><span>2: Ship</span></li>')
+		})
+
+		it("should render the placeholder for empty lists", () => {
+			REACTIVE_CORE.createSignal("ssr.empty", [])
+
+			const html = renderToString(
+				<SignalList id="ssr.empty" keyBy="id" placeholder="Nothing yet">
+					{(item: unknown) => <span>{String(item)}</span>}
+				</SignalList>
+			)
+
+			expect(html).toBe("<ul><li>Nothing yet</li></ul>")
+		})
+
+		it("should render slot items without a wrapper list", () => {
+			REACTIVE_CORE.createSignal("ssr.cards", [{ id: 1, title: "Card" }])
+
+			const html = renderToString(
+				<SignalList id="ssr.cards" keyBy="id" type="slot">
+					{(card: { title: string }) => <article>{card.title}</article>}
+				</SignalList>
+			)
+
+			expect(html).toContain('<article data-key="1">Card</article>')
+		})
+	})
 })
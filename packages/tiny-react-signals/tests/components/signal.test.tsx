@@ -1,6 +1,7 @@
 import { act, fireEvent, render } from "@testing-library/react"
 // biome-ignore lint/correctness/noUnusedImports: UMD shit talk
 import * as React from "react"
+import { renderToString } from "react-dom/server"
 import { beforeEach, describe, expect, it, vi } from "vitest"
 import { Signal } from "../../src/components/signal"
 import { REACTIVE_CORE } from "../../src/core"
@@ -457,4 +458,76 @@ describe("Signal Component Test Suite", () => {
 			expect(element.getAttribute("role")).toBe("status")
 		})
 	})
+
+	describe("Server Rendering", () => {
+		it("should render the current value instead of the placeholder", () => {
+			REACTIVE_CORE.createSignal("ssr.name", "Ada")
+
+			const html = renderToString(<Signal id="ssr.name" />)
+
+			expect(html).toBe("<span>Ada</span>")
+		})
+
+		it("should render render prop output", () => {
+			REACTIVE_CORE.createSignal("ssr.count", 3)
+
+			const html = renderToString(<Signal id="ssr.count">{(count: number) => <strong>{count} items</strong>}</Signal>)
+
+			expect(html).toContain("<strong>3<!-- --> items</strong>")
+			expect(html).not.toContain("Loading...")
+		})
+
+		it("should render multiple signals", () => {
+			REACTIVE_CORE.createSignal("ssr.first", "Ada")
+			REACTIVE_CORE.createSignal("ssr.last", "Lovelace")
+
+			const html = renderToString(
+				<Signal ids={["ssr.first", "ssr.last"]}>
+					{({ first, last }: Record<string, string>) => <em>{`${first} ${last}`}</em>}
+				</Signal>
+			)
+
+			expect(html).toContain("<em>Ada Lovelace</em>")
+		})
+
+		it("should escape values and only inject HTML when allowed", () => {
+			REACTIVE_CORE.createSignal("ssr.html", "<b>bold</b>")
+
+			expect(renderToString(<Signal id="ssr.html" />)).toBe("<span>&lt;b&gt;bold&lt;/b&gt;</span>")
+			expect(
+				renderToString(
+					// biome-ignore lint/security/noDangerouslySetInnerHtml: Testing security feature
+					<Signal id="ssr.html" dangerouslySetInnerHTML={true} />
+				)
+			).toBe("<span><b>bold</b></span>")
+		})
+
+		it("should render slot children without a placeholder", () => {
+			REACTIVE_CORE.createSignal("ssr.color", "red")
+
+			const html = renderToString(
+				<Signal id="ssr.color" as={null}>
+					{(color: string) => <div className={color}>Themed</div>}
+				</Signal>
+			)
+
+			expect(html).toContain('<div class="red">Themed</div>')
+		})
+
+		it("should render the placeholder when the signal has no value", () => {
+			expect(renderToString(<Signal id="ssr.missing" />)).toBe("<span>Loading...</span>")
+		})
+
+		it("should keep patched content when the parent re-renders", () => {
+			REACTIVE_CORE.createSignal("ssr.live", "first")
+
+			const { container, rerender } = render(<Signal id="ssr.live" className="a" />)
+			act(() => REACTIVE_CORE.updateSignal("ssr.live", "second"))
+			rerender(<Signal id="ssr.live" className="b" />)
+
+			const element = container.firstChild as HTMLElement
+			expect(element.textContent).toBe("second")
+			expect(element.className).toBe("b")
+		})
+	})
 })
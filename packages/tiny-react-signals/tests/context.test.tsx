@@ -0,0 +1,123 @@
+import { act, render, renderHook } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import type { ReactNode } from "react"
+import { beforeEach, describe, expect, it } from "vitest"
+import { Signal } from "../src/components/signal"
+import { SignalList } from "../src/components/signal-list"
+import { SignalEngineProvider, useSignalEngine } from "../src/context"
+import { REACTIVE_CORE, type ReactiveEngine, createEngine } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { useSignalComputed } from "../src/hooks/use-signal-computed"
+
+describe("Engine Context Test Suite", () => {
+	let engine: ReactiveEngine
+
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+
+		engine = createEngine()
+	})
+
+	const wrapper = ({ children }: { children: ReactNode }) => (
+		<SignalEngineProvider engine={engine}>{children}</SignalEngineProvider>
+	)
+
+	describe("createEngine", () => {
+		it("should create engines with independent signal namespaces", () => {
+			const other = createEngine()
+
+			engine.createSignal("count", 1)
+			other.createSignal("count", 2)
+
+			expect(engine.getValue("count")).toBe(1)
+			expect(other.getValue("count")).toBe(2)
+			expect(REACTIVE_CORE.getValue("count")).toBeUndefined()
+		})
+
+		it("should not share subscriptions between engines", () => {
+			const other = createEngine()
+			const received: number[] = []
+
+			engine.createSignal("count", 0)
+			other.createSignal("count", 0)
+			engine.subscribe<number>("count", (value) => received.push(value))
+
+			other.updateSignal("count", 5)
+			engine.updateSignal("count", 1)
+
+			expect(received).toEqual([1])
+		})
+	})
+
+	describe("SignalEngineProvider", () => {
+		it("should default to the global engine without a provider", () => {
+			const { result } = renderHook(() => useSignalEngine())
+
+			expect(result.current).toBe(REACTIVE_CORE)
+		})
+
+		it("should expose the provided engine", () => {
+			const { result } = renderHook(() => useSignalEngine(), { wrapper })
+
+			expect(result.current).toBe(engine)
+		})
+
+		it("should create and update hook signals in the provided engine", () => {
+			const { result } = renderHook(() => useSignal("widget.count", 0), { wrapper })
+
+			act(() => {
+				result.current[1](3)
+			})
+
+			expect(result.current[0]).toBe(3)
+			expect(engine.getValue("widget.count")).toBe(3)
+			expect(REACTIVE_CORE.getValue("widget.count")).toBeUndefined()
+		})
+
+		it("should compute from signals in the provided engine", () => {
+			engine.createSignal("a", 2)
+			engine.createSignal("b", 3)
+
+			const { result } = renderHook(
+				() => useSignalComputed("sum", ["a", "b"], (a, b) => (a as number) + (b as number)),
+				{ wrapper }
+			)
+
+			expect(result.current[0]).toBe(5)
+
+			act(() => {
+				engine.updateSignal("a", 10)
+			})
+
+			expect(result.current[0]).toBe(13)
+		})
+
+		it("should render Signal and SignalList from the provided engine", () => {
+			engine.createSignal("user.name", "Scoped")
+			engine.createSignal("todos", [{ id: 1, text: "Isolated" }])
+			REACTIVE_CORE.createSignal("user.name", "Global")
+
+			const { container } = render(
+				<SignalEngineProvider engine={engine}>
+					<Signal id="user.name" data-testid="name" />
+					<SignalList id="todos" keyBy="id">
+						{(todo: { text: string }) => todo.text}
+					</SignalList>
+				</SignalEngineProvider>
+			)
+
+			expect(container.querySelector("span")?.textContent).toBe("Scoped")
+			expect(container.querySelector("li")?.textContent).toBe("Isolated")
+
+			act(() => {
+				engine.updateSignal("user.name", "Updated")
+			})
+
+			expect(container.querySelector("span")?.textContent).toBe("Updated")
+		})
+	})
+})
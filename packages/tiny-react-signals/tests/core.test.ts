@@ -1,5 +1,11 @@
-import { type Mock, beforeEach, describe, expect, test, vi } from "vitest"
-import { REACTIVE_CORE } from "../src/core"
+import { type Mock, afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import {
+	CANCEL_UPDATE,
+	DEFAULT_DISPOSE_DELAY,
+	REACTIVE_CORE,
+	SignalCycleError,
+	SignalDependencyError,
+} from "../src/core"
 import type {
 	BindingFunction,
 	CallbackFunction,
@@ -131,6 +137,224 @@ describe("Ultimate React Core Test Suite", () => {
 		})
 	})
 
+	describe("Custom Equality", () => {
+		test("should skip structurally equal writes with shallow equality", () => {
+			REACTIVE_CORE.createSignal("filters", { status: "open", page: 1 }, { equals: "shallow" })
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("filters", callback)
+
+			REACTIVE_CORE.updateSignal("filters", { status: "open", page: 1 })
+			expect(callback).not.toHaveBeenCalled()
+
+			REACTIVE_CORE.updateSignal("filters", { status: "open", page: 2 })
+			expect(callback).toHaveBeenCalledWith({ status: "open", page: 2 })
+		})
+
+		test("should keep the existing reference when values are equal", () => {
+			const initial = { user: { roles: ["admin"] } }
+			REACTIVE_CORE.createSignal("session", initial, { equals: "deep" })
+
+			REACTIVE_CORE.updateSignal("session", { user: { roles: ["admin"] } })
+
+			expect(REACTIVE_CORE.getValue("session")).toBe(initial)
+		})
+
+		test("should use a custom equality function", () => {
+			REACTIVE_CORE.createSignal("position", 10, { equals: (a: number, b: number) => Math.abs(a - b) < 5 })
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("position", callback)
+
+			REACTIVE_CORE.updateSignal("position", 12)
+			REACTIVE_CORE.updateSignal("position", 20)
+
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(REACTIVE_CORE.getValue("position")).toBe(20)
+		})
+
+		test("should compare transformed values", () => {
+			REACTIVE_CORE.createSignal("tags", ["b", "a"], {
+				transform: (tags: string[]) => [...tags].sort(),
+				equals: "shallow",
+			})
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("tags", callback)
+
+			REACTIVE_CORE.updateSignal("tags", ["a", "b"])
+
+			expect(callback).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.getRawValue("tags")).toEqual(["b", "a"])
+		})
+
+		test("should stop computed signals returning fresh arrays from cascading", () => {
+			REACTIVE_CORE.createSignal("todos", [
+				{ id: 1, done: false },
+				{ id: 2, done: true },
+			])
+			REACTIVE_CORE.createComputed(
+				"openIds",
+				["todos"],
+				(todos: { id: number; done: boolean }[]) => todos.filter((todo) => !todo.done).map((todo) => todo.id),
+				{ equals: "shallow" }
+			)
+
+			const computeCount = vi.fn((ids: number[]) => ids.length)
+			REACTIVE_CORE.createComputed("openCount", ["openIds"], computeCount)
+			computeCount.mockClear()
+
+			REACTIVE_CORE.updateSignal("todos", [
+				{ id: 1, done: false },
+				{ id: 2, done: true },
+				{ id: 3, done: true },
+			])
+
+			expect(computeCount).not.toHaveBeenCalled()
+		})
+
+		test("should apply to recomputeSignal", () => {
+			REACTIVE_CORE.createSignal("source", [1, 2])
+			let calls = 0
+			REACTIVE_CORE.createTrackedComputed(
+				"copy",
+				() => {
+					calls++
+					return [...(REACTIVE_CORE.getValue<number[]>("source") ?? [])]
+				},
+				{ equals: "shallow" }
+			)
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("copy", callback)
+
+			REACTIVE_CORE.recomputeSignal("copy")
+
+			expect(calls).toBe(2)
+			expect(callback).not.toHaveBeenCalled()
+		})
+
+		test("should replace equality on upsert", () => {
+			REACTIVE_CORE.createSignal("settings", { theme: "dark" })
+			REACTIVE_CORE.upsertSignal("settings", { theme: "dark" }, { equals: "shallow" })
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("settings", callback)
+
+			REACTIVE_CORE.updateSignal("settings", { theme: "dark" })
+
+			expect(callback).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("Update Interceptors", () => {
+		const removers: Array<(() => void) | null> = []
+
+		afterEach(() => {
+			for (const remove of removers.splice(0)) {
+				remove?.()
+			}
+		})
+
+		test("should replace the written value", () => {
+			REACTIVE_CORE.createSignal("volume", 50, {
+				intercept: ({ next }: { next: number }) => Math.min(100, Math.max(0, next)),
+			})
+
+			REACTIVE_CORE.updateSignal("volume", 150)
+			expect(REACTIVE_CORE.getValue("volume")).toBe(100)
+
+			REACTIVE_CORE.updateSignal("volume", -5)
+			expect(REACTIVE_CORE.getValue("volume")).toBe(0)
+		})
+
+		test("should cancel the update", () => {
+			REACTIVE_CORE.createSignal("config.readonly", "locked", { intercept: () => CANCEL_UPDATE })
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("config.readonly", callback)
+
+			REACTIVE_CORE.updateSignal("config.readonly", "changed")
+
+			expect(REACTIVE_CORE.getValue("config.readonly")).toBe("locked")
+			expect(callback).not.toHaveBeenCalled()
+		})
+
+		test("should receive the signal ID and previous raw value", () => {
+			const interceptor = vi.fn(({ next }: { next: string }) => next)
+			REACTIVE_CORE.createSignal("title", "draft", {
+				transform: (value: string) => value.toUpperCase(),
+				intercept: interceptor,
+			})
+
+			REACTIVE_CORE.updateSignal("title", "final")
+
+			expect(interceptor).toHaveBeenCalledWith({ id: "title", prev: "draft", next: "final" })
+			expect(REACTIVE_CORE.getValue("title")).toBe("FINAL")
+		})
+
+		test("should run engine-wide interceptors before per-signal ones", () => {
+			const order: string[] = []
+			REACTIVE_CORE.createSignal("score", 0, {
+				intercept: ({ next }: { next: number }) => {
+					order.push(`signal:${next}`)
+					return next + 1
+				},
+			})
+			removers.push(
+				REACTIVE_CORE.addInterceptor(({ id, next }) => {
+					order.push(`global:${id}:${next}`)
+					return (next as number) * 10
+				})
+			)
+
+			REACTIVE_CORE.updateSignal("score", 2)
+
+			expect(order).toEqual(["global:score:2", "signal:20"])
+			expect(REACTIVE_CORE.getValue("score")).toBe(21)
+		})
+
+		test("should let global interceptors veto writes by ID", () => {
+			REACTIVE_CORE.createSignal("admin.role", "viewer")
+			REACTIVE_CORE.createSignal("user.name", "Ada")
+			removers.push(REACTIVE_CORE.addInterceptor(({ id, next }) => (id.startsWith("admin.") ? CANCEL_UPDATE : next)))
+
+			REACTIVE_CORE.updateSignal("admin.role", "owner")
+			REACTIVE_CORE.updateSignal("user.name", "Grace")
+
+			expect(REACTIVE_CORE.getValue("admin.role")).toBe("viewer")
+			expect(REACTIVE_CORE.getValue("user.name")).toBe("Grace")
+		})
+
+		test("should remove interceptors with the returned cleanup", () => {
+			REACTIVE_CORE.createSignal("locked", 1)
+			const remove = REACTIVE_CORE.addInterceptor(() => CANCEL_UPDATE, "locked")
+
+			REACTIVE_CORE.updateSignal("locked", 2)
+			expect(REACTIVE_CORE.getValue("locked")).toBe(1)
+
+			remove?.()
+			REACTIVE_CORE.updateSignal("locked", 3)
+			expect(REACTIVE_CORE.getValue("locked")).toBe(3)
+		})
+
+		test("should return null when intercepting a missing signal", () => {
+			expect(REACTIVE_CORE.addInterceptor((update) => update.next, "missing")).toBeNull()
+		})
+
+		test("should not intercept computed propagation", () => {
+			REACTIVE_CORE.createSignal("base", 1)
+			REACTIVE_CORE.createComputed("double", ["base"], (base: number) => base * 2)
+			const interceptor = vi.fn((update) => update.next)
+			removers.push(REACTIVE_CORE.addInterceptor(interceptor))
+
+			REACTIVE_CORE.updateSignal("base", 2)
+
+			expect(interceptor).toHaveBeenCalledTimes(1)
+			expect(REACTIVE_CORE.getValue("double")).toBe(4)
+		})
+	})
+
 	describe("Computed Signals", () => {
 		test("should create computed signal", () => {
 			REACTIVE_CORE.createSignal("dep1", 10)
@@ -198,6 +422,313 @@ describe("Ultimate React Core Test Suite", () => {
 		})
 	})
 
+	describe("Tracked Computed Signals", () => {
+		test("should collect dependencies from values read while computing", () => {
+			REACTIVE_CORE.createSignal("a", 2)
+			REACTIVE_CORE.createSignal("b", 3)
+
+			const computed = REACTIVE_CORE.createTrackedComputed(
+				"sum",
+				() => (REACTIVE_CORE.getValue<number>("a") ?? 0) + (REACTIVE_CORE.getValue<number>("b") ?? 0)
+			)
+
+			expect(computed.value).toBe(5)
+			expect(computed.tracked).toBe(true)
+			expect(computed.dependencies).toEqual(["a", "b"])
+
+			REACTIVE_CORE.updateSignal("b", 10)
+			expect(REACTIVE_CORE.getValue("sum")).toBe(12)
+		})
+
+		test("should re-collect dependencies on every run", () => {
+			REACTIVE_CORE.createSignal("useFallback", false)
+			REACTIVE_CORE.createSignal("primary", "primary")
+			REACTIVE_CORE.createSignal("fallback", "fallback")
+
+			const computeFn = vi.fn(() =>
+				REACTIVE_CORE.getValue("useFallback") ? REACTIVE_CORE.getValue("fallback") : REACTIVE_CORE.getValue("primary")
+			)
+			const computed = REACTIVE_CORE.createTrackedComputed("branch", computeFn)
+
+			expect(computed.dependencies).toEqual(["useFallback", "primary"])
+
+			REACTIVE_CORE.updateSignal("useFallback", true)
+			expect(computed.value).toBe("fallback")
+			expect(computed.dependencies).toEqual(["useFallback", "fallback"])
+
+			computeFn.mockClear()
+			REACTIVE_CORE.updateSignal("primary", "ignored")
+
+			expect(computeFn).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.createSignal("primary", "").computed.has("branch")).toBe(false)
+
+			REACTIVE_CORE.updateSignal("fallback", "updated")
+			expect(computed.value).toBe("updated")
+		})
+
+		test("should not leak tracking into nested explicit computed signals", () => {
+			REACTIVE_CORE.createSignal("source", 1)
+			REACTIVE_CORE.createTrackedComputed("outer", () => REACTIVE_CORE.getValue<number>("source"))
+			REACTIVE_CORE.createComputed("inner", ["outer"], (value: number) => value * 2)
+
+			expect(REACTIVE_CORE.getValue("inner")).toBe(2)
+
+			REACTIVE_CORE.updateSignal("source", 4)
+			expect(REACTIVE_CORE.getValue("inner")).toBe(8)
+		})
+
+		test("should apply transformers to tracked computed signals", () => {
+			REACTIVE_CORE.createSignal("count", 3)
+
+			REACTIVE_CORE.createTrackedComputed("doubled", () => REACTIVE_CORE.getValue<number>("count") ?? 0, {
+				transform: (value: number) => value * 2,
+			})
+
+			expect(REACTIVE_CORE.getValue("doubled")).toBe(6)
+			expect(REACTIVE_CORE.getRawValue("doubled")).toBe(3)
+		})
+	})
+
+	describe("Lazy Computed Signals", () => {
+		test("should not evaluate until the value is read", () => {
+			REACTIVE_CORE.createSignal("rows", [3, 1, 2])
+
+			const computeFn = vi.fn((rows: number[]) => [...rows].sort())
+			const computed = REACTIVE_CORE.createComputed("sortedRows", ["rows"], computeFn, { lazy: true })
+
+			expect(computeFn).not.toHaveBeenCalled()
+			expect(computed.dirty).toBe(true)
+
+			expect(REACTIVE_CORE.getValue("sortedRows")).toEqual([1, 2, 3])
+			expect(computeFn).toHaveBeenCalledTimes(1)
+			expect(computed.dirty).toBe(false)
+		})
+
+		test("should mark itself dirty instead of recomputing when unobserved", () => {
+			REACTIVE_CORE.createSignal("count", 1)
+
+			const computeFn = vi.fn((count: number) => count * 2)
+			REACTIVE_CORE.createComputed("doubled", ["count"], computeFn, { lazy: true })
+			REACTIVE_CORE.getValue("doubled")
+			computeFn.mockClear()
+
+			REACTIVE_CORE.updateSignal("count", 2)
+			REACTIVE_CORE.updateSignal("count", 3)
+
+			expect(computeFn).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.getValue("doubled")).toBe(6)
+			expect(computeFn).toHaveBeenCalledTimes(1)
+		})
+
+		test("should evaluate when gaining its first subscriber and then stay up to date", () => {
+			REACTIVE_CORE.createSignal("count", 1)
+
+			const computeFn = vi.fn((count: number) => count + 1)
+			REACTIVE_CORE.createComputed("next", ["count"], computeFn, { lazy: true })
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("next", callback)
+
+			expect(computeFn).toHaveBeenCalledTimes(1)
+
+			REACTIVE_CORE.updateSignal("count", 5)
+
+			expect(callback).toHaveBeenCalledWith(6)
+		})
+
+		test("should evaluate before the initial binding call", () => {
+			REACTIVE_CORE.createSignal("name", "ada")
+			REACTIVE_CORE.createComputed("upperName", ["name"], (name: string) => name.toUpperCase(), { lazy: true })
+
+			const bindingFn = vi.fn()
+			REACTIVE_CORE.bindElement({ isConnected: true } as HTMLElement, "upperName", bindingFn)
+
+			expect(bindingFn).toHaveBeenCalledWith(expect.anything(), "ADA")
+		})
+
+		test("should feed fresh values to eager dependents", () => {
+			REACTIVE_CORE.createSignal("base", 1)
+			REACTIVE_CORE.createComputed("lazyDouble", ["base"], (base: number) => base * 2, { lazy: true })
+			REACTIVE_CORE.createComputed("eagerPlusOne", ["lazyDouble"], (value: number) => value + 1)
+
+			expect(REACTIVE_CORE.getValue("eagerPlusOne")).toBe(3)
+
+			REACTIVE_CORE.updateSignal("base", 10)
+			expect(REACTIVE_CORE.getValue("eagerPlusOne")).toBe(21)
+		})
+
+		test("should support lazy tracked computed signals", () => {
+			REACTIVE_CORE.createSignal("items", ["a", "b"])
+
+			const computeFn = vi.fn(() => REACTIVE_CORE.getValue<string[]>("items")?.length)
+			REACTIVE_CORE.createTrackedComputed("itemCount", computeFn, { lazy: true })
+
+			expect(computeFn).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.getValue("itemCount")).toBe(2)
+
+			computeFn.mockClear()
+			REACTIVE_CORE.updateSignal("items", ["a"])
+
+			expect(computeFn).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.getValue("itemCount")).toBe(1)
+		})
+	})
+
+	describe("Cycle Detection", () => {
+		const catchCycle = (fn: () => void): SignalCycleError => {
+			try {
+				fn()
+			} catch (error) {
+				expect(error).toBeInstanceOf(SignalCycleError)
+				return error as SignalCycleError
+			}
+			throw new Error("Expected a SignalCycleError")
+		}
+
+		test("should reject a computed that closes a loop when registered", () => {
+			REACTIVE_CORE.createComputed("a", ["b"], (b: number) => b)
+
+			const error = catchCycle(() => REACTIVE_CORE.createComputed("b", ["a"], (a: number) => a))
+
+			expect(error.path).toEqual(["b", "a", "b"])
+			expect(error.message).toContain("b -> a -> b")
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("b")
+		})
+
+		test("should name every signal along a longer loop", () => {
+			REACTIVE_CORE.createComputed("x", ["z"], (z: number) => z)
+			REACTIVE_CORE.createComputed("y", ["x"], (x: number) => x)
+
+			const error = catchCycle(() => REACTIVE_CORE.createComputed("z", ["y"], (y: number) => y))
+
+			expect(error.path).toEqual(["z", "y", "x", "z"])
+		})
+
+		test("should reject a computed that depends on itself", () => {
+			const error = catchCycle(() => REACTIVE_CORE.createComputed("self", ["self"], (value: number) => value))
+
+			expect(error.path).toEqual(["self", "self"])
+		})
+
+		test("should detect loops introduced by tracked dependencies while propagating", () => {
+			REACTIVE_CORE.createSignal("linked", false)
+			REACTIVE_CORE.createTrackedComputed("left", () => REACTIVE_CORE.getValue("right"))
+			REACTIVE_CORE.createTrackedComputed("right", () =>
+				REACTIVE_CORE.getValue("linked") ? REACTIVE_CORE.getValue("left") : "unlinked"
+			)
+
+			const error = catchCycle(() => REACTIVE_CORE.updateSignal("linked", true))
+
+			expect(error.path).toEqual(["right", "left", "right"])
+		})
+
+		test("should detect loops while lazily evaluating", () => {
+			REACTIVE_CORE.createSignal("flag", false)
+			REACTIVE_CORE.createTrackedComputed(
+				"ping",
+				() => (REACTIVE_CORE.getValue("flag") ? REACTIVE_CORE.getValue("pong") : 0),
+				{
+					lazy: true,
+				}
+			)
+			REACTIVE_CORE.createTrackedComputed("pong", () => REACTIVE_CORE.getValue("ping"), { lazy: true })
+
+			REACTIVE_CORE.updateSignal("flag", true)
+
+			const error = catchCycle(() => REACTIVE_CORE.getValue("pong"))
+
+			expect(error.path).toEqual(["pong", "ping", "pong"])
+		})
+	})
+
+	describe("Glitch-free Propagation", () => {
+		const createDiamond = () => {
+			REACTIVE_CORE.createSignal("a", 1)
+			REACTIVE_CORE.createComputed("b", ["a"], (a: number) => a * 2)
+
+			const computeC = vi.fn((a: number, b: number) => `${a}:${b}`)
+			REACTIVE_CORE.createComputed("c", ["a", "b"], computeC)
+			computeC.mockClear()
+
+			return computeC
+		}
+
+		test("should assign computed signals a height above their dependencies", () => {
+			createDiamond()
+
+			expect(REACTIVE_CORE.createSignal("a", 0).height).toBe(0)
+			expect(REACTIVE_CORE.createSignal("b", 0).height).toBe(1)
+			expect(REACTIVE_CORE.createSignal("c", 0).height).toBe(2)
+		})
+
+		test("should compute diamond dependents once with consistent values", () => {
+			const computeC = createDiamond()
+
+			REACTIVE_CORE.updateSignal("a", 5)
+
+			expect(computeC).toHaveBeenCalledTimes(1)
+			expect(computeC).toHaveBeenCalledWith(5, 10)
+			expect(REACTIVE_CORE.getValue("c")).toBe("5:10")
+		})
+
+		test("should compute diamond dependents once inside a batch", () => {
+			const computeC = createDiamond()
+
+			REACTIVE_CORE.batchUpdate(() => {
+				REACTIVE_CORE.updateSignal("a", 2)
+				REACTIVE_CORE.updateSignal("a", 3)
+			})
+
+			expect(computeC).toHaveBeenCalledTimes(1)
+			expect(computeC).toHaveBeenCalledWith(3, 6)
+		})
+
+		test("should notify subscribers once after the graph settles", () => {
+			createDiamond()
+
+			const seen: string[] = []
+			REACTIVE_CORE.subscribe("a", (a: number) => seen.push(`a=${a} c=${REACTIVE_CORE.getValue("c")}`))
+			REACTIVE_CORE.subscribe("c", (c: string) => seen.push(`c=${c}`))
+
+			REACTIVE_CORE.updateSignal("a", 4)
+
+			expect(seen).toEqual(["a=4 c=4:8", "c=4:8"])
+		})
+
+		test("should skip dependents whose dependencies did not change", () => {
+			REACTIVE_CORE.createSignal("count", 1)
+			REACTIVE_CORE.createComputed("isPositive", ["count"], (count: number) => count > 0)
+
+			const computeLabel = vi.fn((isPositive: boolean) => (isPositive ? "positive" : "negative"))
+			REACTIVE_CORE.createComputed("label", ["isPositive"], computeLabel)
+			computeLabel.mockClear()
+
+			REACTIVE_CORE.updateSignal("count", 2)
+
+			expect(computeLabel).not.toHaveBeenCalled()
+		})
+
+		test("should order tracked computed signals that gain deeper dependencies", () => {
+			REACTIVE_CORE.createSignal("useDerived", false)
+			REACTIVE_CORE.createSignal("base", 1)
+			REACTIVE_CORE.createComputed("derived", ["base"], (base: number) => base * 10)
+
+			const computeView = vi.fn(() =>
+				REACTIVE_CORE.getValue("useDerived") ? REACTIVE_CORE.getValue("derived") : REACTIVE_CORE.getValue("base")
+			)
+			REACTIVE_CORE.createTrackedComputed("view", computeView)
+
+			REACTIVE_CORE.updateSignal("useDerived", true)
+			expect(REACTIVE_CORE.getValue("view")).toBe(10)
+
+			computeView.mockClear()
+			REACTIVE_CORE.updateSignal("base", 2)
+
+			expect(computeView).toHaveBeenCalledTimes(1)
+			expect(REACTIVE_CORE.getValue("view")).toBe(20)
+		})
+	})
+
 	describe("DOM Bindings", () => {
 		let mockElement: HTMLElement
 
@@ -404,6 +935,246 @@ describe("Ultimate React Core Test Suite", () => {
 
 			expect(callback).toHaveBeenCalledWith(30)
 		})
+
+		test("should carry batched updates through multi-level computed chains", () => {
+			REACTIVE_CORE.createSignal("price", 10)
+			REACTIVE_CORE.createSignal("quantity", 1)
+			REACTIVE_CORE.createComputed(
+				"subtotal",
+				["price", "quantity"],
+				(price: number, quantity: number) => price * quantity
+			)
+			REACTIVE_CORE.createComputed("tax", ["subtotal"], (subtotal: number) => subtotal * 0.5)
+			REACTIVE_CORE.createComputed("total", ["subtotal", "tax"], (subtotal: number, tax: number) => subtotal + tax)
+
+			const subtotalCallback = vi.fn()
+			const totalCallback = vi.fn()
+			REACTIVE_CORE.subscribe("subtotal", subtotalCallback)
+			REACTIVE_CORE.subscribe("total", totalCallback)
+
+			REACTIVE_CORE.batchUpdate(() => {
+				REACTIVE_CORE.updateSignal("price", 20)
+				REACTIVE_CORE.updateSignal("quantity", 3)
+			})
+
+			expect(REACTIVE_CORE.getValue("tax")).toBe(30)
+			expect(REACTIVE_CORE.getValue("total")).toBe(90)
+			expect(subtotalCallback).toHaveBeenCalledTimes(1)
+			expect(subtotalCallback).toHaveBeenCalledWith(60)
+			expect(totalCallback).toHaveBeenCalledTimes(1)
+			expect(totalCallback).toHaveBeenCalledWith(90)
+		})
+
+		test("should run bindings once per signal after the chain settles", () => {
+			REACTIVE_CORE.createSignal("level0", 1)
+			REACTIVE_CORE.createComputed("level1", ["level0"], (value: number) => value + 1)
+			REACTIVE_CORE.createComputed("level2", ["level1"], (value: number) => value + 1)
+			REACTIVE_CORE.createComputed("level3", ["level2"], (value: number) => value + 1)
+
+			const bindingFn = vi.fn()
+			REACTIVE_CORE.bindElement({ isConnected: true } as HTMLElement, "level3", bindingFn)
+			bindingFn.mockClear()
+
+			REACTIVE_CORE.batchUpdate(() => {
+				REACTIVE_CORE.updateSignal("level0", 5)
+				REACTIVE_CORE.updateSignal("level0", 10)
+			})
+
+			expect(bindingFn).toHaveBeenCalledTimes(1)
+			expect(bindingFn).toHaveBeenCalledWith(expect.anything(), 13)
+		})
+
+		test("should settle writes made by subscribers during a flush in another round", () => {
+			REACTIVE_CORE.createSignal("input", 0)
+			REACTIVE_CORE.createSignal("mirror", 0)
+			REACTIVE_CORE.createComputed("mirrorDoubled", ["mirror"], (value: number) => value * 2)
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("input", (value: number) => REACTIVE_CORE.updateSignal("mirror", value))
+			REACTIVE_CORE.subscribe("mirrorDoubled", callback)
+
+			REACTIVE_CORE.batchUpdate(() => {
+				REACTIVE_CORE.updateSignal("input", 7)
+			})
+
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith(14)
+		})
+	})
+
+	describe("Snapshot & Restore", () => {
+		test("should capture raw values of plain signals only", () => {
+			REACTIVE_CORE.createSignal("user.name", "ada", { transform: (value: string) => value.toUpperCase() })
+			REACTIVE_CORE.createSignal("user.age", 36)
+			REACTIVE_CORE.createComputed(
+				"user.label",
+				["user.name", "user.age"],
+				(name: string, age: number) => `${name} (${age})`
+			)
+
+			expect(REACTIVE_CORE.snapshot()).toEqual({ "user.name": "ada", "user.age": 36 })
+		})
+
+		test("should filter the snapshot by prefix", () => {
+			REACTIVE_CORE.createSignal("user.name", "Ada")
+			REACTIVE_CORE.createSignal("cart.items", [1, 2])
+
+			expect(REACTIVE_CORE.snapshot("cart.")).toEqual({ "cart.items": [1, 2] })
+		})
+
+		test("should restore values in one batch and recompute computed signals", () => {
+			REACTIVE_CORE.createSignal("a", 1)
+			REACTIVE_CORE.createSignal("b", 2)
+			REACTIVE_CORE.createComputed("sum", ["a", "b"], (a: number, b: number) => a + b)
+			const snapshot = REACTIVE_CORE.snapshot()
+
+			REACTIVE_CORE.updateSignal("a", 10)
+			REACTIVE_CORE.updateSignal("b", 20)
+
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("sum", callback)
+			REACTIVE_CORE.restore(snapshot)
+
+			expect(REACTIVE_CORE.getValue("sum")).toBe(3)
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith(3)
+		})
+
+		test("should create missing signals and rerun transformers", () => {
+			REACTIVE_CORE.createSignal("title", "draft", { transform: (value: string) => value.toUpperCase() })
+
+			REACTIVE_CORE.restore({ title: "final", "user.theme": "dark" })
+
+			expect(REACTIVE_CORE.getValue("title")).toBe("FINAL")
+			expect(REACTIVE_CORE.getValue("user.theme")).toBe("dark")
+		})
+
+		test("should recompute tracked computed signals", () => {
+			REACTIVE_CORE.createSignal("first", "Ada")
+			REACTIVE_CORE.createTrackedComputed("greeting", () => `Hello ${REACTIVE_CORE.getValue("first")}`)
+
+			REACTIVE_CORE.restore({ first: "Grace" })
+
+			expect(REACTIVE_CORE.getValue("greeting")).toBe("Hello Grace")
+		})
+
+		test("should run interceptors and validators on restored values", () => {
+			REACTIVE_CORE.createSignal("restore.readonly", "original", { intercept: () => CANCEL_UPDATE })
+			REACTIVE_CORE.createSignal("restore.age", 30, {
+				validate: (value: number) => (value >= 0 ? null : [{ message: "Must be positive" }]),
+			})
+
+			REACTIVE_CORE.restore({ "restore.readonly": "hacked", "restore.age": -1 })
+
+			expect(REACTIVE_CORE.getValue("restore.readonly")).toBe("original")
+			expect(REACTIVE_CORE.getValue("restore.age")).toBe(30)
+		})
+
+		test("should leave unobserved lazy computed signals for the next read", () => {
+			const computeFn = vi.fn((count: unknown) => (count as number) * 2)
+			REACTIVE_CORE.createSignal("restore.count", 1)
+			REACTIVE_CORE.createComputed("restore.double", ["restore.count"], computeFn, { lazy: true })
+
+			REACTIVE_CORE.restore({ "restore.count": 4 })
+			expect(computeFn).not.toHaveBeenCalled()
+
+			expect(REACTIVE_CORE.getValue("restore.double")).toBe(8)
+			expect(computeFn).toHaveBeenCalledTimes(1)
+		})
+
+		test("should round-trip through JSON", () => {
+			REACTIVE_CORE.createSignal("todos", [{ text: "Write tests", done: false }])
+			const serialized = JSON.stringify(REACTIVE_CORE.snapshot())
+
+			REACTIVE_CORE.updateSignal("todos", [])
+			REACTIVE_CORE.restore(JSON.parse(serialized))
+
+			expect(REACTIVE_CORE.getValue("todos")).toEqual([{ text: "Write tests", done: false }])
+		})
+	})
+
+	describe("Lifecycle Events", () => {
+		test("should report created and removed signals", () => {
+			const created = vi.fn()
+			const removed = vi.fn()
+			const stopCreated = REACTIVE_CORE.onSignalCreated(created)
+			const stopRemoved = REACTIVE_CORE.onSignalRemoved(removed)
+
+			REACTIVE_CORE.createSignal("life.a", 1)
+			REACTIVE_CORE.createSignal("life.a", 2)
+			REACTIVE_CORE.upsertSignal("life.a", 3)
+			REACTIVE_CORE.cleanup("life.a")
+			REACTIVE_CORE.cleanup("life.a")
+
+			expect(created.mock.calls).toEqual([["life.a"]])
+			expect(removed.mock.calls).toEqual([["life.a"]])
+
+			stopCreated()
+			stopRemoved()
+			REACTIVE_CORE.createSignal("life.b", 1)
+			REACTIVE_CORE.cleanup("life.b")
+
+			expect(created).toHaveBeenCalledTimes(1)
+			expect(removed).toHaveBeenCalledTimes(1)
+		})
+
+		test("should filter events by pattern", () => {
+			const created = vi.fn()
+			const stop = REACTIVE_CORE.onSignalCreated(created, "todo.*.done")
+
+			REACTIVE_CORE.createSignal("todo.1.done", false)
+			REACTIVE_CORE.createSignal("todo.1.text", "Write")
+			REACTIVE_CORE.createSignal("other.1.done", true)
+
+			expect(created.mock.calls).toEqual([["todo.1.done"]])
+			stop()
+		})
+
+		test("should report computed signals once they are registered", () => {
+			const created = vi.fn()
+			const computed = vi.fn()
+			const stopCreated = REACTIVE_CORE.onSignalCreated(created)
+			const stopComputed = REACTIVE_CORE.onComputedRegistered((id) => computed(id, REACTIVE_CORE.getValue(id)))
+
+			REACTIVE_CORE.createSignal("life.base", 2)
+			REACTIVE_CORE.createComputed("life.double", ["life.base"], (base: unknown) => (base as number) * 2)
+			REACTIVE_CORE.createTrackedComputed("life.triple", () => (REACTIVE_CORE.getValue("life.base") as number) * 3)
+
+			expect(created.mock.calls).toEqual([["life.base"], ["life.double"], ["life.triple"]])
+			expect(computed.mock.calls).toEqual([
+				["life.double", 4],
+				["life.triple", 6],
+			])
+
+			stopCreated()
+			stopComputed()
+		})
+
+		test("should not report computed signals that failed to register", () => {
+			const computed = vi.fn()
+			const stop = REACTIVE_CORE.onComputedRegistered(computed)
+
+			expect(() =>
+				REACTIVE_CORE.createComputed("life.broken", [], () => {
+					throw new Error("boom")
+				})
+			).toThrow("boom")
+
+			expect(computed).not.toHaveBeenCalled()
+			stop()
+		})
+
+		test("should let listeners unsubscribe while being notified", () => {
+			const second = vi.fn()
+			const stopFirst = REACTIVE_CORE.onSignalCreated(() => stopFirst())
+			const stopSecond = REACTIVE_CORE.onSignalCreated(second)
+
+			REACTIVE_CORE.createSignal("life.c", 1)
+			REACTIVE_CORE.createSignal("life.d", 1)
+
+			expect(second).toHaveBeenCalledTimes(2)
+			stopSecond()
+		})
 	})
 
 	describe("Cleanup Operations", () => {
@@ -445,6 +1216,143 @@ describe("Ultimate React Core Test Suite", () => {
 			expect(REACTIVE_CORE.getValue("app.theme")).toBe("dark")
 		})
 
+		test("should cleanup signals matching a glob or RegExp", () => {
+			REACTIVE_CORE.createSignal("todo.1.done", true)
+			REACTIVE_CORE.createSignal("todo.1.text", "Write")
+			REACTIVE_CORE.createSignal("todo.2.done", false)
+			REACTIVE_CORE.createSignal("cart.items.0", "apple")
+			REACTIVE_CORE.createSignal("cart", "root")
+
+			REACTIVE_CORE.cleanupMatching("todo.*.done")
+			REACTIVE_CORE.cleanupMatching(/^cart\./)
+
+			expect(REACTIVE_CORE.getActiveSignals().sort()).toEqual(["cart", "todo.1.text"])
+		})
+
+		test("should query signals with named captures", () => {
+			REACTIVE_CORE.createSignal("todo.1.done", true)
+			REACTIVE_CORE.createSignal("todo.2.done", false)
+			REACTIVE_CORE.createSignal("todo.2.text", "Ship")
+
+			expect(REACTIVE_CORE.query("todo.{id}.done")).toEqual([
+				{ id: "todo.1.done", value: true, groups: { id: "1" } },
+				{ id: "todo.2.done", value: false, groups: { id: "2" } },
+			])
+			expect(REACTIVE_CORE.query(/^todo\.(?<id>\d+)\.text$/)).toEqual([
+				{ id: "todo.2.text", value: "Ship", groups: { id: "2" } },
+			])
+		})
+
+		test("should unlink a removed computed from its dependencies", () => {
+			REACTIVE_CORE.createSignal("graph.base", 1)
+			REACTIVE_CORE.createComputed("graph.double", ["graph.base"], (base: unknown) => (base as number) * 2)
+
+			REACTIVE_CORE.cleanup("graph.double")
+
+			expect(() => REACTIVE_CORE.updateSignal("graph.base", 2)).not.toThrow()
+			expect(() => REACTIVE_CORE.cleanup("graph.base", { cascade: "refuse" })).not.toThrow()
+		})
+
+		test("should freeze dependents by default", () => {
+			REACTIVE_CORE.createSignal("graph.base", 2)
+			REACTIVE_CORE.createComputed("graph.double", ["graph.base"], (base: unknown) => (base as number) * 2)
+			REACTIVE_CORE.createComputed("graph.quad", ["graph.double"], (double: unknown) => (double as number) * 2)
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("graph.quad", callback)
+
+			REACTIVE_CORE.cleanup("graph.base")
+
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual(["graph.double", "graph.quad"])
+			expect(REACTIVE_CORE.getValue("graph.double")).toBe(4)
+
+			// The frozen signal is a plain signal now, and what was built on top of it keeps working
+			REACTIVE_CORE.updateSignal("graph.double", 10)
+			expect(REACTIVE_CORE.getValue("graph.quad")).toBe(20)
+			expect(callback).toHaveBeenCalledWith(20)
+
+			REACTIVE_CORE.createSignal("graph.base", 100)
+			expect(REACTIVE_CORE.getValue("graph.double")).toBe(10)
+			expect(REACTIVE_CORE.snapshot()).toEqual({ "graph.base": 100, "graph.double": 10 })
+		})
+
+		test("should compute stale lazy dependents before freezing them", () => {
+			REACTIVE_CORE.createSignal("graph.base", 1)
+			REACTIVE_CORE.createComputed("graph.lazy", ["graph.base"], (base: unknown) => (base as number) + 1, {
+				lazy: true,
+			})
+			REACTIVE_CORE.updateSignal("graph.base", 5)
+
+			REACTIVE_CORE.cleanup("graph.base", { cascade: "detach" })
+
+			expect(REACTIVE_CORE.getValue("graph.lazy")).toBe(6)
+		})
+
+		test("should remove dependents transitively with cascade", () => {
+			REACTIVE_CORE.createSignal("graph.base", 1)
+			REACTIVE_CORE.createSignal("graph.other", 1)
+			REACTIVE_CORE.createComputed("graph.double", ["graph.base"], (base: unknown) => (base as number) * 2)
+			REACTIVE_CORE.createTrackedComputed(
+				"graph.sum",
+				() => (REACTIVE_CORE.getValue("graph.double") as number) + (REACTIVE_CORE.getValue("graph.other") as number)
+			)
+			const removed = vi.fn()
+			const stop = REACTIVE_CORE.onSignalRemoved(removed)
+
+			REACTIVE_CORE.cleanup("graph.base", { cascade: "cascade" })
+			stop()
+
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual(["graph.other"])
+			expect(removed.mock.calls.flat().sort()).toEqual(["graph.base", "graph.double", "graph.sum"])
+
+			// No dangling edge is left on the surviving dependency
+			expect(() => REACTIVE_CORE.cleanup("graph.other", { cascade: "refuse" })).not.toThrow()
+		})
+
+		test("should refuse to remove signals with dependents", () => {
+			REACTIVE_CORE.createSignal("graph.base", 1)
+			REACTIVE_CORE.createComputed("graph.double", ["graph.base"], (base: unknown) => (base as number) * 2)
+			REACTIVE_CORE.createComputed("graph.triple", ["graph.base"], (base: unknown) => (base as number) * 3)
+
+			let error: unknown
+			try {
+				REACTIVE_CORE.cleanup("graph.base", { cascade: "refuse" })
+			} catch (e) {
+				error = e
+			}
+
+			expect(error).toBeInstanceOf(SignalDependencyError)
+			expect((error as SignalDependencyError).id).toBe("graph.base")
+			expect((error as SignalDependencyError).dependents).toEqual(["graph.double", "graph.triple"])
+			expect(REACTIVE_CORE.getActiveSignals()).toHaveLength(3)
+
+			REACTIVE_CORE.updateSignal("graph.base", 2)
+			expect(REACTIVE_CORE.getValue("graph.triple")).toBe(6)
+		})
+
+		test("should count dependents of the issues signal when refusing", () => {
+			REACTIVE_CORE.createSignal("graph.email", "", {
+				validate: (value: string) => (value ? null : [{ message: "Required" }]),
+			})
+			REACTIVE_CORE.createComputed("graph.hasErrors", ["graph.email:issues"], (issues: unknown) => issues !== null)
+
+			expect(() => REACTIVE_CORE.cleanup("graph.email", { cascade: "refuse" })).toThrow(SignalDependencyError)
+			expect(REACTIVE_CORE.getValue("graph.email:issues")).not.toBeNull()
+		})
+
+		test("should only refuse pattern removal for dependents outside the pattern", () => {
+			REACTIVE_CORE.createSignal("cart.price", 10)
+			REACTIVE_CORE.createComputed("cart.total", ["cart.price"], (price: unknown) => (price as number) * 2)
+			REACTIVE_CORE.createComputed("summary.total", ["cart.total"], (total: unknown) => total)
+
+			expect(() => REACTIVE_CORE.cleanupMatching("cart.", { cascade: "refuse" })).toThrow(SignalDependencyError)
+			expect(REACTIVE_CORE.getActiveSignals()).toHaveLength(3)
+
+			REACTIVE_CORE.cleanup("summary.total")
+			REACTIVE_CORE.cleanupMatching("cart.", { cascade: "refuse" })
+
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual([])
+		})
+
 		test("should handle cleanup of non-existent signals", () => {
 			expect(() => {
 				REACTIVE_CORE.cleanup("non-existent")
@@ -452,6 +1360,256 @@ describe("Ultimate React Core Test Suite", () => {
 		})
 	})
 
+	describe("Auto-dispose", () => {
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		test("should remove an unused signal after the grace period", () => {
+			REACTIVE_CORE.createSignal("auto.count", 0, { autoDispose: true })
+			const unsubscribe = REACTIVE_CORE.subscribe("auto.count", vi.fn())
+
+			unsubscribe?.()
+			vi.advanceTimersByTime(DEFAULT_DISPOSE_DELAY - 1)
+			expect(REACTIVE_CORE.getActiveSignals()).toContain("auto.count")
+
+			vi.advanceTimersByTime(1)
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("auto.count")
+		})
+
+		test("should keep a signal alive while it is subscribed, bound or retained", () => {
+			REACTIVE_CORE.createSignal("auto.used", "value", { autoDispose: 100 })
+			const element = document.createElement("span")
+
+			const unsubscribe = REACTIVE_CORE.subscribe("auto.used", vi.fn())
+			const unbind = REACTIVE_CORE.bindElement(element, "auto.used", vi.fn())
+			const release = REACTIVE_CORE.retain("auto.used")
+
+			unsubscribe?.()
+			unbind?.()
+			vi.advanceTimersByTime(1000)
+			expect(REACTIVE_CORE.getActiveSignals()).toContain("auto.used")
+
+			release?.()
+			release?.()
+			vi.advanceTimersByTime(100)
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("auto.used")
+		})
+
+		test("should cancel the removal when the signal is used again within the grace period", () => {
+			REACTIVE_CORE.createSignal("auto.remount", 1, { keepAlive: false })
+			const unsubscribe = REACTIVE_CORE.subscribe("auto.remount", vi.fn())
+
+			unsubscribe?.()
+			vi.advanceTimersByTime(DEFAULT_DISPOSE_DELAY / 2)
+			REACTIVE_CORE.subscribe("auto.remount", vi.fn())
+			vi.advanceTimersByTime(DEFAULT_DISPOSE_DELAY * 2)
+
+			expect(REACTIVE_CORE.getValue("auto.remount")).toBe(1)
+		})
+
+		test("should remove signals nobody picks up after creation", () => {
+			REACTIVE_CORE.createSignal("auto.orphan", 1, { autoDispose: 10 })
+			REACTIVE_CORE.createSignal("auto.kept", 1)
+
+			vi.advanceTimersByTime(10)
+
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual(["auto.kept"])
+		})
+
+		test("should not count weak subscribers as users", () => {
+			const callback = vi.fn()
+			REACTIVE_CORE.createSignal("auto.watched", 1, { autoDispose: 10 })
+			REACTIVE_CORE.subscribe("auto.watched", callback, { weak: true })
+
+			REACTIVE_CORE.updateSignal("auto.watched", 2)
+			vi.advanceTimersByTime(10)
+
+			expect(callback).toHaveBeenCalledWith(2)
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("auto.watched")
+		})
+
+		test("should count dependent computed signals as users", () => {
+			REACTIVE_CORE.createSignal("auto.base", 2, { autoDispose: 10 })
+			REACTIVE_CORE.createComputed("auto.double", ["auto.base"], (base: unknown) => (base as number) * 2, {
+				autoDispose: 10,
+			})
+			const unsubscribe = REACTIVE_CORE.subscribe("auto.double", vi.fn())
+
+			vi.advanceTimersByTime(10)
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual(["auto.base", "auto.double"])
+
+			unsubscribe?.()
+			vi.advanceTimersByTime(10)
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual(["auto.base"])
+
+			vi.advanceTimersByTime(10)
+			expect(REACTIVE_CORE.getActiveSignals()).toEqual([])
+		})
+
+		test("should keep signals alive by default", () => {
+			REACTIVE_CORE.createSignal("auto.default", 1)
+			const unsubscribe = REACTIVE_CORE.subscribe("auto.default", vi.fn())
+
+			unsubscribe?.()
+			vi.advanceTimersByTime(DEFAULT_DISPOSE_DELAY * 10)
+
+			expect(REACTIVE_CORE.getActiveSignals()).toContain("auto.default")
+		})
+
+		test("should not remove a signal recreated under the same ID", () => {
+			REACTIVE_CORE.createSignal("auto.recreated", 1, { autoDispose: 10 })
+			REACTIVE_CORE.cleanup("auto.recreated")
+			REACTIVE_CORE.createSignal("auto.recreated", 2)
+
+			vi.advanceTimersByTime(10)
+
+			expect(REACTIVE_CORE.getValue("auto.recreated")).toBe(2)
+		})
+	})
+
+	describe("Debounce & Throttle", () => {
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		test("should drop writes still held back when restoring", () => {
+			REACTIVE_CORE.createSignal("restore.query", "", { debounce: 100 })
+
+			REACTIVE_CORE.updateSignal("restore.query", "typed")
+			REACTIVE_CORE.restore({ "restore.query": "restored" })
+
+			expect(REACTIVE_CORE.getRawValue("restore.query")).toBe("restored")
+			vi.advanceTimersByTime(100)
+			expect(REACTIVE_CORE.getValue("restore.query")).toBe("restored")
+		})
+
+		test("should hold debounced writes back from computed signals and subscribers", () => {
+			const callback = vi.fn()
+			REACTIVE_CORE.createSignal("search.query", "", { debounce: 300 })
+			REACTIVE_CORE.createComputed("search.upper", ["search.query"], (query: unknown) =>
+				(query as string).toUpperCase()
+			)
+			REACTIVE_CORE.subscribe("search.query", callback)
+
+			for (const query of ["r", "re", "rea", "react"]) {
+				REACTIVE_CORE.updateSignal("search.query", query)
+				vi.advanceTimersByTime(100)
+			}
+
+			expect(REACTIVE_CORE.getRawValue("search.query")).toBe("react")
+			expect(REACTIVE_CORE.getValue("search.query")).toBe("")
+			expect(REACTIVE_CORE.getValue("search.upper")).toBe("")
+			expect(callback).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(200)
+
+			expect(REACTIVE_CORE.getValue("search.upper")).toBe("REACT")
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith("react")
+		})
+
+		test("should throttle writes with a leading write", () => {
+			REACTIVE_CORE.createSignal("pointer.x", 0, { throttle: 16 })
+
+			REACTIVE_CORE.updateSignal("pointer.x", 1)
+			REACTIVE_CORE.updateSignal("pointer.x", 2)
+			REACTIVE_CORE.updateSignal("pointer.x", 3)
+			expect(REACTIVE_CORE.getValue("pointer.x")).toBe(1)
+
+			vi.advanceTimersByTime(16)
+			expect(REACTIVE_CORE.getValue("pointer.x")).toBe(3)
+		})
+
+		test("should rate limit notifications separately from writes", () => {
+			const callback = vi.fn()
+			REACTIVE_CORE.createSignal("price.live", 100, { throttle: { notify: { wait: 50, leading: false } } })
+			REACTIVE_CORE.createComputed("price.double", ["price.live"], (price: unknown) => (price as number) * 2)
+			REACTIVE_CORE.subscribe("price.live", callback)
+
+			REACTIVE_CORE.updateSignal("price.live", 101)
+			REACTIVE_CORE.updateSignal("price.live", 102)
+
+			expect(REACTIVE_CORE.getValue("price.live")).toBe(102)
+			expect(REACTIVE_CORE.getValue("price.double")).toBe(204)
+			expect(callback).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(50)
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith(102)
+		})
+
+		test("should rate limit notifications of computed signals", () => {
+			const callback = vi.fn()
+			REACTIVE_CORE.createSignal("stats.count", 1)
+			REACTIVE_CORE.createComputed("stats.total", ["stats.count"], (count: unknown) => (count as number) * 10, {
+				debounce: { notify: 100 },
+			})
+			REACTIVE_CORE.subscribe("stats.total", callback)
+
+			REACTIVE_CORE.updateSignal("stats.count", 2)
+			REACTIVE_CORE.updateSignal("stats.count", 3)
+			vi.advanceTimersByTime(100)
+
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith(30)
+		})
+
+		test("should apply pending writes on flush", () => {
+			const callback = vi.fn()
+			REACTIVE_CORE.createSignal("form.name", "", { debounce: { write: 300, notify: 300 } })
+			REACTIVE_CORE.subscribe("form.name", callback)
+
+			REACTIVE_CORE.updateSignal("form.name", "Ada")
+			REACTIVE_CORE.flush("form.name")
+
+			expect(REACTIVE_CORE.getValue("form.name")).toBe("Ada")
+			expect(callback).toHaveBeenCalledWith("Ada")
+
+			vi.advanceTimersByTime(300)
+			expect(callback).toHaveBeenCalledTimes(1)
+		})
+
+		test("should drop pending writes on cancel", () => {
+			REACTIVE_CORE.createSignal("form.email", "old@example.com", { debounce: 300 })
+
+			REACTIVE_CORE.updateSignal("form.email", "new@example.com")
+			REACTIVE_CORE.cancel("form.email")
+			vi.advanceTimersByTime(300)
+
+			expect(REACTIVE_CORE.getValue("form.email")).toBe("old@example.com")
+			expect(REACTIVE_CORE.getRawValue("form.email")).toBe("old@example.com")
+		})
+
+		test("should drop pending writes when the signal is removed", () => {
+			REACTIVE_CORE.createSignal("temp.draft", "", { debounce: 100 })
+
+			REACTIVE_CORE.updateSignal("temp.draft", "lost")
+			REACTIVE_CORE.cleanup("temp.draft")
+			REACTIVE_CORE.createSignal("temp.draft", "fresh")
+			vi.advanceTimersByTime(100)
+
+			expect(REACTIVE_CORE.getValue("temp.draft")).toBe("fresh")
+		})
+
+		test("should refuse debouncing and throttling the same target", () => {
+			expect(() => REACTIVE_CORE.createSignal("both.limits", 0, { debounce: 100, throttle: { write: 100 } })).toThrow(
+				TypeError
+			)
+			expect(() =>
+				REACTIVE_CORE.createSignal("split.limits", 0, { debounce: { write: 100 }, throttle: { notify: 16 } })
+			).not.toThrow()
+		})
+	})
+
 	describe("Edge Cases & Error Handling", () => {
 		test("should handle null/undefined elements in bindings", () => {
 			REACTIVE_CORE.createSignal("null-element", "value")
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { deepEqual, resolveEquality, shallowEqual } from "../src/equality"
+
+describe("Equality Test Suite", () => {
+	describe("shallowEqual", () => {
+		it("should compare primitives with Object.is", () => {
+			expect(shallowEqual(1, 1)).toBe(true)
+			expect(shallowEqual(Number.NaN, Number.NaN)).toBe(true)
+			expect(shallowEqual(0, -0)).toBe(false)
+			expect(shallowEqual("a", "b")).toBe(false)
+		})
+
+		it("should compare arrays item by item", () => {
+			const item = { id: 1 }
+
+			expect(shallowEqual([1, item], [1, item])).toBe(true)
+			expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false)
+			expect(shallowEqual([{ id: 1 }], [{ id: 1 }])).toBe(false)
+		})
+
+		it("should compare plain objects key by key", () => {
+			expect(shallowEqual({ a: 1, b: "x" }, { b: "x", a: 1 })).toBe(true)
+			expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+			expect(shallowEqual({ a: { nested: true } }, { a: { nested: true } })).toBe(false)
+		})
+
+		it("should not treat arrays and objects as equal", () => {
+			expect(shallowEqual([], {})).toBe(false)
+		})
+	})
+
+	describe("deepEqual", () => {
+		it("should compare nested structures", () => {
+			expect(deepEqual({ rows: [{ id: 1, tags: ["a"] }] }, { rows: [{ id: 1, tags: ["a"] }] })).toBe(true)
+			expect(deepEqual({ rows: [{ id: 1, tags: ["a"] }] }, { rows: [{ id: 1, tags: ["b"] }] })).toBe(false)
+		})
+
+		it("should compare dates, regular expressions, maps and sets", () => {
+			expect(deepEqual(new Date(0), new Date(0))).toBe(true)
+			expect(deepEqual(new Date(0), new Date(1))).toBe(false)
+			expect(deepEqual(/a/g, /a/g)).toBe(true)
+			expect(deepEqual(new Map([["a", { x: 1 }]]), new Map([["a", { x: 1 }]]))).toBe(true)
+			expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true)
+			expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false)
+		})
+
+		it("should compare class instances by reference", () => {
+			class Point {
+				x: number
+
+				constructor(x: number) {
+					this.x = x
+				}
+			}
+
+			expect(deepEqual(new Point(1), new Point(1))).toBe(false)
+		})
+
+		it("should handle circular references", () => {
+			const a: Record<string, unknown> = { name: "a" }
+			const b: Record<string, unknown> = { name: "a" }
+			a.self = a
+			b.self = b
+
+			expect(deepEqual(a, b)).toBe(true)
+		})
+	})
+
+	describe("resolveEquality", () => {
+		it("should resolve built-in names and default to Object.is", () => {
+			const custom = (a: number, b: number) => Math.abs(a - b) < 1
+
+			expect(resolveEquality("shallow")).toBe(shallowEqual)
+			expect(resolveEquality("deep")).toBe(deepEqual)
+			expect(resolveEquality(custom)).toBe(custom)
+			expect(resolveEquality(undefined)).toBe(Object.is)
+		})
+	})
+})
@@ -0,0 +1,329 @@
+import { act, render, renderHook } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest"
+import { Signal } from "../src/components/signal"
+import { SignalList } from "../src/components/signal-list"
+import { REACTIVE_CORE, createEngine } from "../src/core"
+import { createHandle } from "../src/handle"
+import { useReactiveElement } from "../src/hooks/use-reactive-element"
+import { useSignal } from "../src/hooks/use-signal"
+import { useSignalComputed } from "../src/hooks/use-signal-computed"
+import { useSignalEffect } from "../src/hooks/use-signal-effect"
+import { useSignalRef } from "../src/hooks/use-signal-ref"
+import { useSignalSelector } from "../src/hooks/use-signal-selector"
+import { runWithEngine } from "../src/scope"
+import { signal } from "../src/signal"
+
+describe("Signal Handle Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	describe("Handle API", () => {
+		it("should read and write through the handle", () => {
+			const count = signal.create("handle.count", 1)
+
+			expectTypeOf(count.get()).toEqualTypeOf<number>()
+			expect(count.id).toBe("handle.count")
+			expect(count.get()).toBe(1)
+
+			count.set(5)
+			expect(signal.get("handle.count")).toBe(5)
+
+			count.update((prev) => prev + 1)
+			expect(count.get()).toBe(6)
+		})
+
+		it("should return a handle from upsert without overwriting the value", () => {
+			signal.create("handle.upsert", "original")
+			const handle = signal.upsert("handle.upsert", "updated")
+
+			expect(handle.get()).toBe("original")
+		})
+
+		it("should subscribe and unsubscribe", () => {
+			const count = signal.create("handle.subscribe", 0)
+			const callback = vi.fn()
+
+			const unsubscribe = count.subscribe(callback)
+			count.set(1)
+			unsubscribe?.()
+			count.set(2)
+
+			expect(callback).toHaveBeenCalledTimes(1)
+			expect(callback).toHaveBeenCalledWith(1)
+		})
+
+		it("should bind elements", () => {
+			const name = signal.create("handle.bind", "Ada")
+			const element = document.createElement("span")
+			document.body.appendChild(element)
+
+			const unbind = name.bind(element, (el, value) => {
+				el.textContent = value
+			})
+			expect(element.textContent).toBe("Ada")
+
+			name.set("Grace")
+			expect(element.textContent).toBe("Grace")
+
+			unbind?.()
+			name.set("Linus")
+			expect(element.textContent).toBe("Grace")
+			element.remove()
+		})
+
+		it("should dispose the signal", () => {
+			const temp = signal.create("handle.dispose", 1)
+
+			temp.dispose()
+
+			expect(signal.getActiveSignals()).not.toContain("handle.dispose")
+			expect(temp.get()).toBeUndefined()
+			expect(temp.subscribe(() => {})).toBeNull()
+		})
+
+		it("should stay bound to the engine that created it", () => {
+			const engine = createEngine()
+			const scoped = runWithEngine(engine, () => signal.create("handle.scoped", "scoped"))
+
+			scoped.set("changed")
+
+			expect(engine.getValue("handle.scoped")).toBe("changed")
+			expect(REACTIVE_CORE.getValue("handle.scoped")).toBeUndefined()
+		})
+
+		it("should be trackable inside derived signals", () => {
+			const price = signal.create("handle.price", 10)
+			signal.derive("handle.double", () => price.get() * 2)
+
+			price.set(21)
+
+			expect(signal.get("handle.double")).toBe(42)
+		})
+
+		it("should expose the signal fields on handles from create and upsert", () => {
+			const count = signal.create("handle.fields", 1, { transform: (value: number) => value * 10 })
+
+			count.set(2)
+
+			expect(count.value).toBe(20)
+			expect(count.rawValue).toBe(2)
+			expect(count.hasTransformers).toBe(true)
+			expect(signal.upsert("handle.fields", 0).value).toBe(20)
+		})
+
+		it("should create handles for existing signals", () => {
+			REACTIVE_CORE.createSignal("handle.existing", true)
+			const handle = createHandle<boolean>(REACTIVE_CORE, "handle.existing")
+
+			handle.update((prev) => !prev)
+
+			expect(REACTIVE_CORE.getValue("handle.existing")).toBe(false)
+		})
+	})
+
+	describe("Hooks", () => {
+		it("should accept a handle in useSignal", () => {
+			const count = signal.create("handle.hook", 3)
+			const { result } = renderHook(() => useSignal(count))
+
+			expectTypeOf(result.current[0]).toEqualTypeOf<number>()
+			expect(result.current[0]).toBe(3)
+
+			act(() => {
+				result.current[1]((prev) => prev + 1)
+			})
+
+			expect(count.get()).toBe(4)
+			expect(result.current[0]).toBe(4)
+		})
+
+		it("should accept a handle in useSignalSelector", () => {
+			const user = signal.create("handle.user", { name: "Ada", age: 36 })
+			const render = vi.fn()
+			const { result } = renderHook(() => {
+				render()
+				return useSignalSelector(user, (value) => value.name)
+			})
+
+			expect(result.current).toBe("Ada")
+
+			act(() => {
+				user.update((prev) => ({ ...prev, age: 37 }))
+			})
+			expect(render).toHaveBeenCalledTimes(1)
+
+			act(() => {
+				user.update((prev) => ({ ...prev, name: "Grace" }))
+			})
+			expect(result.current).toBe("Grace")
+		})
+
+		it("should accept a handle in useSignalRef", () => {
+			const count = signal.create("handle.ref", 1)
+			const { result } = renderHook(() => useSignalRef(count))
+
+			act(() => {
+				count.set(2)
+			})
+
+			expect(result.current.current).toBe(2)
+		})
+
+		it("should accept handles as computed and effect dependencies", () => {
+			const a = signal.create("handle.a", 2)
+			const b = signal.create("handle.b", 3)
+			const effect = vi.fn()
+
+			const { result } = renderHook(() => {
+				useSignalEffect(effect, [a, "handle.b"])
+				return useSignalComputed("handle.sum", [a, b], (x, y) => (x as number) + (y as number))
+			})
+
+			expect(result.current[0]).toBe(5)
+
+			act(() => {
+				a.set(10)
+			})
+
+			expect(result.current[0]).toBe(13)
+			expect(effect).toHaveBeenLastCalledWith([10, 3])
+		})
+
+		it("should use the engine of the handle instead of the one from context", () => {
+			const engine = createEngine()
+			const count = runWithEngine(engine, () => signal.create("handle.scoped.hook", 1))
+			const effect = vi.fn()
+
+			const { result } = renderHook(() => {
+				useSignalEffect(effect, [count])
+				return [useSignal(count), useSignalRef(count)] as const
+			})
+
+			act(() => {
+				count.set(2)
+			})
+
+			expect(result.current[0][0]).toBe(2)
+			expect(result.current[1].current).toBe(2)
+			expect(effect).toHaveBeenLastCalledWith([2])
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("handle.scoped.hook")
+
+			act(() => {
+				result.current[0][1](3)
+			})
+			expect(engine.getValue("handle.scoped.hook")).toBe(3)
+		})
+
+		it("should compute from handles of another engine in useSignalComputed", () => {
+			const engine = createEngine()
+			const price = runWithEngine(engine, () => signal.create("handle.scoped.price", 4))
+			runWithEngine(engine, () => signal.create("handle.scoped.quantity", 2))
+
+			const { result } = renderHook(() =>
+				useSignalComputed(
+					"handle.scoped.total",
+					[price, "handle.scoped.quantity"],
+					(p, q) => (p as number) * (q as number)
+				)
+			)
+
+			expect(result.current[0]).toBe(8)
+			act(() => {
+				price.set(5)
+			})
+			expect(result.current[0]).toBe(10)
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("handle.scoped.total")
+		})
+
+		it("should reject handles from different engines in useSignalComputed", () => {
+			const error = vi.spyOn(console, "error").mockImplementation(() => {})
+			const a = signal.create("handle.mixed.a", 1)
+			const b = runWithEngine(createEngine(), () => signal.create("handle.mixed.b", 2))
+
+			expect(() => renderHook(() => useSignalComputed("handle.mixed.sum", [a, b], (x, y) => [x, y]))).toThrow(TypeError)
+			error.mockRestore()
+		})
+
+		it("should accept a handle in useReactiveElement", () => {
+			const title = signal.create("handle.title", "Hello")
+
+			function Title() {
+				const ref = useReactiveElement<string, HTMLParagraphElement>(title, (el, value) => {
+					el.textContent = value
+				})
+				return <p ref={ref} />
+			}
+
+			const { container } = render(<Title />)
+			expect(container.textContent).toBe("Hello")
+
+			act(() => {
+				title.set("World")
+			})
+			expect(container.textContent).toBe("World")
+		})
+	})
+
+	describe("Components", () => {
+		it("should accept handles in Signal", () => {
+			const first = signal.create("handle.first", "Ada")
+			const last = signal.create("handle.last", "Lovelace")
+
+			const { container } = render(
+				<div>
+					<Signal id={first}>{(value) => <b>{value.toUpperCase()}</b>}</Signal>
+					<Signal ids={[first, last]}>
+						{(values: { first: string; last: string }) => (
+							<i>
+								{values.first} {values.last}
+							</i>
+						)}
+					</Signal>
+				</div>
+			)
+
+			expect(container.querySelector("b")?.textContent).toBe("ADA")
+			expect(container.querySelector("i")?.textContent).toBe("Ada Lovelace")
+
+			act(() => {
+				first.set("Grace")
+			})
+			expect(container.querySelector("b")?.textContent).toBe("GRACE")
+		})
+
+		it("should render handles from another engine in Signal", () => {
+			const name = runWithEngine(createEngine(), () => signal.create("handle.scoped.name", "Ada"))
+
+			const { container } = render(<Signal id={name} />)
+			expect(container.textContent).toBe("Ada")
+
+			act(() => {
+				name.set("Grace")
+			})
+			expect(container.textContent).toBe("Grace")
+		})
+
+		it("should accept a handle in SignalList", () => {
+			const todos = signal.create("handle.todos", [{ id: 1, text: "Write tests" }])
+
+			const { container } = render(
+				<SignalList id={todos} keyBy="id">
+					{(todo: { id: number; text: string }) => <span>{todo.text}</span>}
+				</SignalList>
+			)
+
+			expect(container.textContent).toBe("Write tests")
+
+			act(() => {
+				todos.update((prev) => [...prev, { id: 2, text: "Ship it" }])
+			})
+			expect(container.textContent).toBe("Write testsShip it")
+		})
+	})
+})
@@ -0,0 +1,197 @@
+import { act, render } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { beforeEach, describe, expect, it } from "vitest"
+import { Signal } from "../src/components/signal"
+import { REACTIVE_CORE } from "../src/core"
+import { createHistory } from "../src/history"
+import { signal } from "../src/signal"
+
+describe("History Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	describe("Undo and Redo", () => {
+		it("should undo and redo single updates", () => {
+			REACTIVE_CORE.createSignal("doc.title", "Draft")
+			const history = createHistory(REACTIVE_CORE, ["doc.title"])
+
+			REACTIVE_CORE.updateSignal("doc.title", "Final")
+			REACTIVE_CORE.updateSignal("doc.title", "Final v2")
+
+			expect(history.undo()).toBe(true)
+			expect(REACTIVE_CORE.getValue("doc.title")).toBe("Final")
+			expect(history.undo()).toBe(true)
+			expect(REACTIVE_CORE.getValue("doc.title")).toBe("Draft")
+			expect(history.undo()).toBe(false)
+
+			expect(history.redo()).toBe(true)
+			expect(REACTIVE_CORE.getValue("doc.title")).toBe("Final")
+		})
+
+		it("should only record the given signals", () => {
+			REACTIVE_CORE.createSignal("doc.body", "")
+			REACTIVE_CORE.createSignal("doc.cursor", 0)
+			const history = createHistory(REACTIVE_CORE, ["doc.body"])
+
+			REACTIVE_CORE.updateSignal("doc.cursor", 5)
+
+			expect(REACTIVE_CORE.getValue(history.canUndo)).toBe(false)
+		})
+
+		it("should clear the redo stack on a new change", () => {
+			REACTIVE_CORE.createSignal("count", 0)
+			const history = createHistory(REACTIVE_CORE, ["count"])
+
+			REACTIVE_CORE.updateSignal("count", 1)
+			history.undo()
+			REACTIVE_CORE.updateSignal("count", 2)
+
+			expect(history.redo()).toBe(false)
+			expect(REACTIVE_CORE.getValue(history.canRedo)).toBe(false)
+		})
+
+		it("should keep at most limit entries", () => {
+			REACTIVE_CORE.createSignal("count", 0)
+			const history = createHistory(REACTIVE_CORE, ["count"], { limit: 2 })
+
+			REACTIVE_CORE.updateSignal("count", 1)
+			REACTIVE_CORE.updateSignal("count", 2)
+			REACTIVE_CORE.updateSignal("count", 3)
+
+			history.undo()
+			history.undo()
+			expect(history.undo()).toBe(false)
+			expect(REACTIVE_CORE.getValue("count")).toBe(1)
+		})
+	})
+
+	describe("Batches", () => {
+		it("should record a batch as a single entry", () => {
+			REACTIVE_CORE.createSignal("shape.x", 0)
+			REACTIVE_CORE.createSignal("shape.y", 0)
+			const history = createHistory(REACTIVE_CORE, ["shape.x", "shape.y"])
+
+			REACTIVE_CORE.batchUpdate(() => {
+				REACTIVE_CORE.updateSignal("shape.x", 10)
+				REACTIVE_CORE.updateSignal("shape.y", 20)
+			})
+			REACTIVE_CORE.updateSignal("shape.x", 15)
+
+			history.undo()
+			expect(REACTIVE_CORE.getValue("shape.x")).toBe(10)
+			expect(REACTIVE_CORE.getValue("shape.y")).toBe(20)
+
+			history.undo()
+			expect(REACTIVE_CORE.getValue("shape.x")).toBe(0)
+			expect(REACTIVE_CORE.getValue("shape.y")).toBe(0)
+			expect(REACTIVE_CORE.getValue(history.canUndo)).toBe(false)
+		})
+
+		it("should keep separate batches as separate entries", () => {
+			REACTIVE_CORE.createSignal("count", 0)
+			const history = createHistory(REACTIVE_CORE, ["count"])
+
+			REACTIVE_CORE.batchUpdate(() => REACTIVE_CORE.updateSignal("count", 1))
+			REACTIVE_CORE.batchUpdate(() => REACTIVE_CORE.updateSignal("count", 2))
+
+			history.undo()
+			expect(REACTIVE_CORE.getValue("count")).toBe(1)
+		})
+
+		it("should not record an undo run inside an outer batch", () => {
+			REACTIVE_CORE.createSignal("count", 0)
+			const history = createHistory(REACTIVE_CORE, ["count"])
+
+			REACTIVE_CORE.updateSignal("count", 1)
+			REACTIVE_CORE.batchUpdate(() => history.undo())
+
+			expect(REACTIVE_CORE.getValue("count")).toBe(0)
+			expect(REACTIVE_CORE.getValue(history.canUndo)).toBe(false)
+			expect(REACTIVE_CORE.getValue(history.canRedo)).toBe(true)
+
+			expect(history.redo()).toBe(true)
+			expect(REACTIVE_CORE.getValue("count")).toBe(1)
+		})
+
+		it("should still record changes made alongside an undo in the same batch", () => {
+			REACTIVE_CORE.createSignal("a", 0)
+			REACTIVE_CORE.createSignal("b", 0)
+			const history = createHistory(REACTIVE_CORE, ["a", "b"])
+
+			REACTIVE_CORE.updateSignal("a", 1)
+			REACTIVE_CORE.batchUpdate(() => {
+				history.undo()
+				REACTIVE_CORE.updateSignal("b", 5)
+			})
+
+			expect(REACTIVE_CORE.getValue(history.canRedo)).toBe(false)
+			history.undo()
+			expect(REACTIVE_CORE.getValue("b")).toBe(0)
+		})
+
+		it("should expose the running batch ID", () => {
+			expect(REACTIVE_CORE.getBatchId()).toBe(0)
+
+			let inside = 0
+			REACTIVE_CORE.batchUpdate(() => {
+				inside = REACTIVE_CORE.getBatchId()
+			})
+
+			expect(inside).toBeGreaterThan(0)
+			expect(REACTIVE_CORE.getBatchId()).toBe(0)
+		})
+	})
+
+	describe("Raw Values", () => {
+		it("should replay raw values through transformers", () => {
+			REACTIVE_CORE.createSignal("tag", "news", { transform: (value: string) => `#${value}` })
+			const history = createHistory(REACTIVE_CORE, ["tag"])
+
+			REACTIVE_CORE.updateSignal("tag", "sports")
+			history.undo()
+
+			expect(REACTIVE_CORE.getRawValue("tag")).toBe("news")
+			expect(REACTIVE_CORE.getValue("tag")).toBe("#news")
+		})
+	})
+
+	describe("Signal API", () => {
+		it("should expose canUndo and canRedo as signals", () => {
+			signal.create("editor.text", "")
+			const history = signal.history(["editor.text"], { id: "editor.history" })
+
+			expect(history.canUndo).toBe("editor.history.canUndo")
+
+			const { container } = render(
+				<Signal id={history.canUndo}>{(canUndo: boolean) => (canUndo ? "undo" : "-")}</Signal>
+			)
+			expect(container.textContent).toBe("-")
+
+			act(() => signal.set("editor.text", "Hello"))
+			expect(container.textContent).toBe("undo")
+			expect(signal.get(history.canRedo)).toBe(false)
+
+			act(() => {
+				history.undo()
+			})
+			expect(container.textContent).toBe("-")
+			expect(signal.get(history.canRedo)).toBe(true)
+		})
+
+		it("should stop recording and remove its signals when disposed", () => {
+			signal.create("editor.text", "")
+			const history = signal.history(["editor.text"])
+
+			history.dispose()
+			signal.set("editor.text", "Hello")
+
+			expect(history.undo()).toBe(false)
+			expect(signal.getActiveSignals()).not.toContain(history.canUndo)
+		})
+	})
+})
@@ -1,5 +1,5 @@
 import { act, renderHook } from "@testing-library/react"
-import { beforeEach, describe, expect, it } from "vitest"
+import { beforeEach, describe, expect, it, vi } from "vitest"
 import { REACTIVE_CORE } from "../../src/core"
 import { useSignal } from "../../src/hooks/use-signal"
 
@@ -254,6 +254,25 @@ describe("useSignal Hook Test Suite", () => {
 			// Should retain previous value
 			expect(result2.current[0]).toBe("updated")
 		})
+
+		it("should dispose autoDispose signals after the last user unmounts", () => {
+			vi.useFakeTimers()
+			try {
+				const options = { autoDispose: 50 }
+				const first = renderHook(() => useSignal("auto-dispose-signal", 0, options))
+				const second = renderHook(() => useSignal("auto-dispose-signal", 0, options))
+
+				first.unmount()
+				vi.advanceTimersByTime(50)
+				expect(REACTIVE_CORE.getActiveSignals()).toContain("auto-dispose-signal")
+
+				second.unmount()
+				vi.advanceTimersByTime(50)
+				expect(REACTIVE_CORE.getActiveSignals()).not.toContain("auto-dispose-signal")
+			} finally {
+				vi.useRealTimers()
+			}
+		})
 	})
 
 	describe("Edge Cases", () => {
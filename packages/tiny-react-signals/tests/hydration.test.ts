@@ -0,0 +1,174 @@
+import { renderHook } from "@testing-library/react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { REACTIVE_CORE, createEngine } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { HYDRATION_SCRIPT_ID, getHydrationScript, hydrateSignals, serializeSnapshot } from "../src/hydration"
+import { signal } from "../src/signal"
+import { getIssuesSignalId } from "../src/validation"
+
+function mountScript(content: string, id = HYDRATION_SCRIPT_ID) {
+	const script = document.createElement("script")
+	script.type = "application/json"
+	script.id = id
+	script.textContent = content
+	document.body.appendChild(script)
+}
+
+describe("Hydration Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	afterEach(() => {
+		document.body.innerHTML = ""
+		vi.restoreAllMocks()
+	})
+
+	describe("Serialization", () => {
+		it("should escape characters that could break out of the script", () => {
+			const json = serializeSnapshot({ "user.bio": "</script><script>alert(1)</script>", note: "a & b <!--" })
+
+			expect(json).not.toContain("<")
+			expect(json).not.toContain(">")
+			expect(JSON.parse(json)).toEqual({ "user.bio": "</script><script>alert(1)</script>", note: "a & b <!--" })
+		})
+
+		it("should escape line and paragraph separators", () => {
+			const json = serializeSnapshot({ text: "a b c" })
+
+			expect(json).toContain("\\u2028")
+			expect(json).toContain("\\u2029")
+			expect(JSON.parse(json).text).toBe("a b c")
+		})
+
+		it("should build a filtered script tag with a nonce", () => {
+			const engine = createEngine()
+			engine.createSignal("user.name", "Ada")
+			engine.createSignal("cart.items", 2)
+
+			expect(getHydrationScript(engine, { filter: "user.", nonce: "abc" })).toBe(
+				`<script type="application/json" id="${HYDRATION_SCRIPT_ID}" nonce="abc">{"user.name":"Ada"}</script>`
+			)
+		})
+	})
+
+	describe("Client Seeding", () => {
+		it("should seed the engine from the script", () => {
+			mountScript(serializeSnapshot({ "user.name": "Ada", "cart.items": [1, 2] }))
+
+			const snapshot = hydrateSignals()
+
+			expect(snapshot).toEqual({ "user.name": "Ada", "cart.items": [1, 2] })
+			expect(REACTIVE_CORE.getValue("user.name")).toBe("Ada")
+			expect(REACTIVE_CORE.getValue("cart.items")).toEqual([1, 2])
+		})
+
+		it("should seed a given engine from a custom script ID", () => {
+			const engine = createEngine()
+			mountScript(serializeSnapshot({ count: 5 }), "app-signals")
+
+			hydrateSignals({ id: "app-signals", engine })
+
+			expect(engine.getValue("count")).toBe(5)
+			expect(REACTIVE_CORE.getValue("count")).toBeUndefined()
+		})
+
+		it("should run server values through the options of the signals that take them", () => {
+			mountScript(serializeSnapshot({ "user.name": "abc", "user.email": "" }))
+			hydrateSignals()
+
+			REACTIVE_CORE.upsertSignal("user.name", "abc", { transform: (value: string) => value.toUpperCase() })
+			signal.create("user.email", "", { validate: (value: string) => (value ? null : [{ message: "Required" }]) })
+
+			expect(REACTIVE_CORE.getRawValue("user.name")).toBe("abc")
+			expect(REACTIVE_CORE.getValue("user.name")).toBe("ABC")
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("user.email"))).toEqual([{ message: "Required" }])
+		})
+
+		it("should do nothing without a script", () => {
+			expect(hydrateSignals()).toBeNull()
+		})
+
+		it("should keep hydrated values when signals are created afterwards", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			mountScript(serializeSnapshot({ count: 5 }))
+			hydrateSignals()
+
+			REACTIVE_CORE.upsertSignal("count", 0)
+
+			expect(REACTIVE_CORE.getValue("count")).toBe(5)
+			expect(warn).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe("Mismatch Warnings", () => {
+		it("should warn when a client signal differs from the server value", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			REACTIVE_CORE.createSignal("theme", "light")
+			REACTIVE_CORE.createSignal("lang", "en")
+			mountScript(serializeSnapshot({ theme: "dark", lang: "en" }))
+
+			hydrateSignals({ warnOnMismatch: true })
+
+			expect(warn).toHaveBeenCalledTimes(1)
+			expect(warn.mock.calls[0][0]).toContain('"theme"')
+			expect(REACTIVE_CORE.getValue("theme")).toBe("dark")
+		})
+
+		it("should compare values structurally", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			REACTIVE_CORE.createSignal("filters", { tags: ["a"] })
+			mountScript(serializeSnapshot({ filters: { tags: ["a"] } }))
+
+			hydrateSignals({ warnOnMismatch: true })
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it("should warn when a hook creates a hydrated signal with a different value", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			mountScript(serializeSnapshot({ count: 5, label: "cart" }))
+			hydrateSignals({ warnOnMismatch: true })
+
+			const { result } = renderHook(() => [useSignal("count", 0), useSignal("label", "cart")])
+
+			expect(result.current[0][0]).toBe(5)
+			expect(warn).toHaveBeenCalledTimes(1)
+			expect(warn.mock.calls[0][0]).toContain('"count"')
+		})
+
+		it("should warn once per hydrated signal", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			mountScript(serializeSnapshot({ theme: "dark" }))
+			hydrateSignals({ warnOnMismatch: true })
+
+			REACTIVE_CORE.upsertSignal("theme", "light")
+			REACTIVE_CORE.upsertSignal("theme", "light")
+
+			expect(warn).toHaveBeenCalledTimes(1)
+		})
+
+		it("should not warn about later creations when warnings are disabled", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			mountScript(serializeSnapshot({ theme: "dark" }))
+			hydrateSignals({ warnOnMismatch: false })
+
+			REACTIVE_CORE.upsertSignal("theme", "light")
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it("should stay silent when warnings are disabled", () => {
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+			REACTIVE_CORE.createSignal("theme", "light")
+			mountScript(serializeSnapshot({ theme: "dark" }))
+
+			hydrateSignals({ warnOnMismatch: false })
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { matchSignalId, matchesPattern } from "../src/pattern"
+
+describe("Pattern Test Suite", () => {
+	describe("Prefixes", () => {
+		it("should match IDs starting with a plain string", () => {
+			expect(matchesPattern("user.name", "user.")).toBe(true)
+			expect(matchesPattern("username", "user")).toBe(true)
+			expect(matchesPattern("app.user.name", "user.")).toBe(false)
+		})
+
+		it("should treat regex characters in prefixes literally", () => {
+			expect(matchesPattern("price($).total", "price($).")).toBe(true)
+			expect(matchesPattern("priceX.total", "price.")).toBe(false)
+		})
+	})
+
+	describe("Globs", () => {
+		it("should match exactly one segment with *", () => {
+			expect(matchesPattern("todo.1.done", "todo.*.done")).toBe(true)
+			expect(matchesPattern("todo.1.text", "todo.*.done")).toBe(false)
+			expect(matchesPattern("todo.1.meta.done", "todo.*.done")).toBe(false)
+			expect(matchesPattern("todo..done", "todo.*.done")).toBe(false)
+		})
+
+		it("should match within a segment with *", () => {
+			expect(matchesPattern("form.email-error", "form.*-error")).toBe(true)
+			expect(matchesPattern("form.email", "form.*-error")).toBe(false)
+		})
+
+		it("should match everything below a trailing **", () => {
+			expect(matchesPattern("cart.items", "cart.**")).toBe(true)
+			expect(matchesPattern("cart.items.0.price", "cart.**")).toBe(true)
+			expect(matchesPattern("cart", "cart.**")).toBe(false)
+			expect(matchesPattern("carts.items", "cart.**")).toBe(false)
+		})
+
+		it("should match any number of segments with a leading or inner **", () => {
+			expect(matchesPattern("done", "**.done")).toBe(true)
+			expect(matchesPattern("todo.1.done", "**.done")).toBe(true)
+			expect(matchesPattern("app.done", "app.**.done")).toBe(true)
+			expect(matchesPattern("app.todo.1.done", "app.**.done")).toBe(true)
+			expect(matchesPattern("app.todo.1.text", "app.**.done")).toBe(false)
+		})
+
+		it("should capture named segments", () => {
+			const match = matchSignalId("projects.web.tasks.7.title", "projects.{project}.tasks.{id}.*")
+
+			expect(match?.groups).toEqual({ project: "web", id: "7" })
+		})
+
+		it("should match whole IDs only", () => {
+			expect(matchesPattern("todo.1.done.at", "todo.*.done")).toBe(false)
+			expect(matchesPattern("my.todo.1.done", "todo.*.done")).toBe(false)
+		})
+	})
+
+	describe("Regular Expressions", () => {
+		it("should test IDs against the expression", () => {
+			expect(matchesPattern("user.42", /^user\.\d+$/)).toBe(true)
+			expect(matchesPattern("user.me", /^user\.\d+$/)).toBe(false)
+		})
+
+		it("should expose named groups", () => {
+			const match = matchSignalId("order.12.line.3", /^order\.(?<order>\d+)\.line\.(?<line>\d+)$/)
+
+			expect(match?.groups).toEqual({ order: "12", line: "3" })
+		})
+
+		it("should ignore global and sticky state between IDs", () => {
+			const pattern = /^item\./gy
+
+			expect(matchesPattern("item.1", pattern)).toBe(true)
+			expect(matchesPattern("item.2", pattern)).toBe(true)
+			expect(pattern.lastIndex).toBe(0)
+		})
+	})
+})
@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { REACTIVE_CORE } from "../src/core"
+import {
+	type PersistAdapter,
+	localStorageAdapter,
+	memoryAdapter,
+	persistSignal,
+	sessionStorageAdapter,
+} from "../src/persist"
+import { signal } from "../src/signal"
+
+describe("Persist Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+		localStorage.clear()
+		sessionStorage.clear()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	describe("Adapters", () => {
+		it("should hydrate from and write to localStorage", () => {
+			localStorage.setItem("settings.theme", JSON.stringify({ version: 0, value: "dark" }))
+
+			REACTIVE_CORE.createSignal("settings.theme", "light", { persist: true })
+			expect(REACTIVE_CORE.getValue("settings.theme")).toBe("dark")
+
+			REACTIVE_CORE.updateSignal("settings.theme", "system")
+			expect(JSON.parse(localStorage.getItem("settings.theme") as string)).toEqual({ version: 0, value: "system" })
+		})
+
+		it("should write to sessionStorage under a custom key", () => {
+			REACTIVE_CORE.createSignal("wizard.step", 1, {
+				persist: { adapter: sessionStorageAdapter(), key: "app:wizard" },
+			})
+
+			REACTIVE_CORE.updateSignal("wizard.step", 2)
+
+			expect(JSON.parse(sessionStorage.getItem("app:wizard") as string).value).toBe(2)
+			expect(localStorage.getItem("app:wizard")).toBeNull()
+		})
+
+		it("should share data through a memory adapter", () => {
+			const store = new Map<string, string>()
+			REACTIVE_CORE.createSignal("cart.count", 0, { persist: { adapter: memoryAdapter(store) } })
+			REACTIVE_CORE.updateSignal("cart.count", 3)
+			REACTIVE_CORE.cleanup("cart.count")
+
+			REACTIVE_CORE.createSignal("cart.count", 0, { persist: { adapter: memoryAdapter(store) } })
+
+			expect(REACTIVE_CORE.getValue("cart.count")).toBe(3)
+		})
+
+		it("should be a no-op where web storage is unavailable", () => {
+			const storage = vi.spyOn(globalThis, "localStorage", "get").mockImplementation(() => {
+				throw new Error("SecurityError")
+			})
+
+			const adapter = localStorageAdapter()
+			expect(adapter.getItem("missing")).toBeUndefined()
+			expect(() => adapter.setItem("missing", "1")).not.toThrow()
+
+			storage.mockRestore()
+		})
+
+		it("should hydrate asynchronously from async adapters", async () => {
+			const adapter: PersistAdapter = {
+				getItem: async () => JSON.stringify({ version: 0, value: ["a", "b"] }),
+				setItem: vi.fn(async () => {}),
+				removeItem: async () => {},
+			}
+
+			REACTIVE_CORE.createSignal<string[]>("drafts", [], { persist: { adapter } })
+			expect(REACTIVE_CORE.getValue("drafts")).toEqual([])
+
+			await vi.waitFor(() => expect(REACTIVE_CORE.getValue("drafts")).toEqual(["a", "b"]))
+			expect(adapter.setItem).not.toHaveBeenCalled()
+		})
+
+		it("should not overwrite changes made before async hydration finishes", async () => {
+			let resolve!: (value: string) => void
+			const adapter: PersistAdapter = {
+				getItem: () =>
+					new Promise<string>((res) => {
+						resolve = res
+					}),
+				setItem: async () => {},
+				removeItem: async () => {},
+			}
+
+			REACTIVE_CORE.createSignal("note", "", { persist: { adapter } })
+			REACTIVE_CORE.updateSignal("note", "typed")
+			resolve(JSON.stringify({ version: 0, value: "stored" }))
+			await Promise.resolve()
+			await Promise.resolve()
+
+			expect(REACTIVE_CORE.getValue("note")).toBe("typed")
+		})
+	})
+
+	describe("Writes", () => {
+		it("should debounce writes", () => {
+			vi.useFakeTimers()
+			const adapter = memoryAdapter()
+			const setItem = vi.spyOn(adapter, "setItem")
+			REACTIVE_CORE.createSignal("search", "", { persist: { adapter, debounce: 100 } })
+
+			REACTIVE_CORE.updateSignal("search", "a")
+			REACTIVE_CORE.updateSignal("search", "ab")
+			REACTIVE_CORE.updateSignal("search", "abc")
+			expect(setItem).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(100)
+
+			expect(setItem).toHaveBeenCalledTimes(1)
+			expect(JSON.parse(setItem.mock.calls[0][1]).value).toBe("abc")
+		})
+
+		it("should flush pending writes when the signal is removed", () => {
+			vi.useFakeTimers()
+			const store = new Map<string, string>()
+			REACTIVE_CORE.createSignal("search", "", { persist: { adapter: memoryAdapter(store), debounce: 100 } })
+
+			REACTIVE_CORE.updateSignal("search", "pending")
+			REACTIVE_CORE.cleanup("search")
+
+			expect(JSON.parse(store.get("search") as string).value).toBe("pending")
+		})
+
+		it("should persist raw values so transformers run again on hydrate", () => {
+			const store = new Map<string, string>()
+			const options = { transform: (value: string) => value.toUpperCase(), persist: { adapter: memoryAdapter(store) } }
+			REACTIVE_CORE.createSignal("code", "abc", options)
+			REACTIVE_CORE.updateSignal("code", "xyz")
+
+			expect(JSON.parse(store.get("code") as string).value).toBe("xyz")
+
+			REACTIVE_CORE.cleanup("code")
+			REACTIVE_CORE.createSignal("code", "abc", options)
+			expect(REACTIVE_CORE.getValue("code")).toBe("XYZ")
+			expect(REACTIVE_CORE.getRawValue("code")).toBe("xyz")
+		})
+
+		it("should not attach twice when upserting", () => {
+			const adapter = memoryAdapter()
+			const setItem = vi.spyOn(adapter, "setItem")
+			REACTIVE_CORE.upsertSignal("count", 0, { persist: { adapter } })
+			REACTIVE_CORE.upsertSignal("count", 0, { persist: { adapter } })
+
+			REACTIVE_CORE.updateSignal("count", 1)
+
+			expect(setItem).toHaveBeenCalledTimes(1)
+		})
+
+		it("should not keep auto-disposed signals alive", () => {
+			vi.useFakeTimers()
+			const store = new Map<string, string>()
+			REACTIVE_CORE.createSignal("session.draft", 1, { autoDispose: 10, persist: { adapter: memoryAdapter(store) } })
+
+			REACTIVE_CORE.updateSignal("session.draft", 2)
+			vi.advanceTimersByTime(50)
+
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("session.draft")
+			expect(JSON.parse(store.get("session.draft") as string)).toEqual({ version: 0, value: 2 })
+		})
+	})
+
+	describe("Versions", () => {
+		it("should migrate data stored under an older version", () => {
+			const store = new Map([["user", JSON.stringify({ version: 1, value: { name: "Ada Lovelace" } })]])
+			const migrate = vi.fn((_: number, data: unknown) => {
+				const [first, last] = (data as { name: string }).name.split(" ")
+				return { first, last }
+			})
+
+			REACTIVE_CORE.createSignal(
+				"user",
+				{ first: "", last: "" },
+				{
+					persist: { adapter: memoryAdapter(store), version: 2, migrate },
+				}
+			)
+
+			expect(migrate).toHaveBeenCalledWith(1, { name: "Ada Lovelace" })
+			expect(REACTIVE_CORE.getValue("user")).toEqual({ first: "Ada", last: "Lovelace" })
+			expect(JSON.parse(store.get("user") as string)).toEqual({ version: 2, value: { first: "Ada", last: "Lovelace" } })
+		})
+
+		it("should discard outdated data without a migrate hook", () => {
+			const store = new Map([["theme", JSON.stringify({ version: 1, value: "dark" })]])
+
+			REACTIVE_CORE.createSignal("theme", "light", { persist: { adapter: memoryAdapter(store), version: 2 } })
+
+			expect(REACTIVE_CORE.getValue("theme")).toBe("light")
+		})
+
+		it("should report unreadable data", () => {
+			const store = new Map([["theme", "{not json"]])
+			const onError = vi.fn()
+
+			REACTIVE_CORE.createSignal("theme", "light", { persist: { adapter: memoryAdapter(store), onError } })
+
+			expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError))
+			expect(REACTIVE_CORE.getValue("theme")).toBe("light")
+		})
+	})
+
+	describe("Signal API", () => {
+		it("should persist existing signals by prefix", () => {
+			const store = new Map<string, string>()
+			signal.create("prefs.lang", "en")
+			signal.create("prefs.units", "metric")
+			signal.create("session.token", "secret")
+
+			const stop = signal.persist("prefs.", { adapter: memoryAdapter(store) })
+			signal.set("prefs.lang", "fr")
+			signal.set("session.token", "other")
+
+			expect([...store.keys()]).toEqual(["prefs.lang"])
+
+			stop()
+			signal.set("prefs.units", "imperial")
+			expect(store.has("prefs.units")).toBe(false)
+		})
+
+		it("should persist and hydrate signals created later", () => {
+			const store = new Map([["prefs.theme", JSON.stringify({ version: 0, value: "dark" })]])
+			const stop = signal.persist("prefs.*", { adapter: memoryAdapter(store) })
+
+			signal.create("prefs.theme", "light")
+			signal.create("prefs.font", "serif")
+			signal.set("prefs.font", "mono")
+
+			expect(signal.get("prefs.theme")).toBe("dark")
+			expect(JSON.parse(store.get("prefs.font") ?? "null")).toEqual({ version: 0, value: "mono" })
+
+			stop()
+			signal.create("prefs.size", 12)
+			signal.set("prefs.size", 14)
+			expect(store.has("prefs.size")).toBe(false)
+		})
+
+		it("should flush pending writes of removed signals before they are created again", () => {
+			vi.useFakeTimers()
+			const store = new Map<string, string>()
+			const stop = signal.persist("todo.", { adapter: memoryAdapter(store), debounce: 10 })
+
+			signal.create("todo.a", "")
+			signal.set("todo.a", "typed")
+			signal.remove("todo.a")
+			vi.advanceTimersByTime(10)
+
+			expect(JSON.parse(store.get("todo.a") as string)).toEqual({ version: 0, value: "typed" })
+
+			signal.create("todo.a", "fresh")
+			expect(signal.get("todo.a")).toBe("typed")
+			stop()
+		})
+
+		it("should ignore stored data without a value", () => {
+			const store = new Map([["todo.b", JSON.stringify({ version: 0 })]])
+			const stop = signal.persist("todo.", { adapter: memoryAdapter(store) })
+
+			signal.create("todo.b", "fresh")
+
+			expect(signal.get("todo.b")).toBe("fresh")
+			stop()
+		})
+
+		it("should stop writing once the returned cleanup runs", () => {
+			const store = new Map<string, string>()
+			REACTIVE_CORE.createSignal("draft", "")
+			const stop = persistSignal(REACTIVE_CORE, "draft", { adapter: memoryAdapter(store) })
+
+			stop()
+			REACTIVE_CORE.updateSignal("draft", "ignored")
+
+			expect(store.size).toBe(0)
+		})
+	})
+})
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createRateLimiter, resolveRateLimitTargets } from "../src/rate-limit"
+
+describe("Rate Limit Test Suite", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	describe("Debounce", () => {
+		it("should run once calls stop for the wait", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("debounce", 100, run)
+
+			limiter.call()
+			vi.advanceTimersByTime(60)
+			limiter.call()
+			vi.advanceTimersByTime(60)
+			expect(run).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(40)
+			expect(run).toHaveBeenCalledTimes(1)
+		})
+
+		it("should run on the leading edge when asked", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("debounce", { wait: 100, leading: true }, run)
+
+			limiter.call()
+			expect(run).toHaveBeenCalledTimes(1)
+
+			limiter.call()
+			limiter.call()
+			vi.advanceTimersByTime(100)
+			expect(run).toHaveBeenCalledTimes(2)
+		})
+
+		it("should not run a trailing call after a lone leading one", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("debounce", { wait: 100, leading: true }, run)
+
+			limiter.call()
+			vi.advanceTimersByTime(100)
+
+			expect(run).toHaveBeenCalledTimes(1)
+		})
+
+		it("should skip the trailing edge when disabled", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("debounce", { wait: 100, leading: true, trailing: false }, run)
+
+			limiter.call()
+			limiter.call()
+			vi.advanceTimersByTime(100)
+			limiter.call()
+
+			expect(run).toHaveBeenCalledTimes(2)
+		})
+	})
+
+	describe("Throttle", () => {
+		it("should run at most once per wait, leading and trailing", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("throttle", 100, run)
+
+			for (let i = 0; i < 10; i++) {
+				limiter.call()
+				vi.advanceTimersByTime(25)
+			}
+
+			// Leading at 0, trailing runs at 100 and 200; the calls at 200 and 225 are still pending
+			expect(run).toHaveBeenCalledTimes(3)
+
+			vi.advanceTimersByTime(100)
+			expect(run).toHaveBeenCalledTimes(4)
+
+			vi.advanceTimersByTime(100)
+			expect(run).toHaveBeenCalledTimes(4)
+		})
+
+		it("should wait for the first window when leading is disabled", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("throttle", { wait: 100, leading: false }, run)
+
+			limiter.call()
+			expect(run).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(100)
+			expect(run).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe("Flush & Cancel", () => {
+		it("should run a pending call on flush", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("debounce", 100, run)
+
+			limiter.call()
+			limiter.flush()
+			expect(run).toHaveBeenCalledTimes(1)
+
+			vi.advanceTimersByTime(100)
+			limiter.flush()
+			expect(run).toHaveBeenCalledTimes(1)
+		})
+
+		it("should drop a pending call on cancel", () => {
+			const run = vi.fn()
+			const limiter = createRateLimiter("throttle", { wait: 100, leading: false }, run)
+
+			limiter.call()
+			limiter.cancel()
+			vi.advanceTimersByTime(100)
+
+			expect(run).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("resolveRateLimitTargets", () => {
+		it("should treat a bare wait or options object as a write limit", () => {
+			expect(resolveRateLimitTargets(300)).toEqual({ write: 300 })
+			expect(resolveRateLimitTargets({ wait: 300, leading: true })).toEqual({ write: { wait: 300, leading: true } })
+			expect(resolveRateLimitTargets({ notify: 16 })).toEqual({ notify: 16 })
+			expect(resolveRateLimitTargets(undefined)).toEqual({})
+		})
+	})
+})
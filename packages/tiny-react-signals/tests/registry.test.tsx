@@ -0,0 +1,115 @@
+import { render, renderHook } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest"
+import { Signal } from "../src/components/signal"
+import { REACTIVE_CORE } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { useSignalSelector } from "../src/hooks/use-signal-selector"
+import { signal } from "../src/signal"
+
+// Augments through the package entry, the same way applications do
+declare module "../src/index" {
+	interface SignalRegistry {
+		"registry.user.name": string
+		"registry.cart.count": number
+		"registry.theme": "light" | "dark"
+		"registry.cart.total": number
+	}
+}
+
+describe("Registry Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	describe("signal API", () => {
+		it("should type values of registered signals", () => {
+			signal.create("registry.user.name", "Ada")
+			signal.create("registry.theme", "light")
+
+			const name = signal.get("registry.user.name")
+			const theme = signal.get("registry.theme")
+
+			expectTypeOf(name).toEqualTypeOf<string | undefined>()
+			expectTypeOf(theme).toEqualTypeOf<"light" | "dark" | undefined>()
+			expect(name).toBe("Ada")
+			expect(theme).toBe("light")
+		})
+
+		it("should reject values that do not match the registry", () => {
+			signal.create("registry.cart.count", 0)
+
+			// @ts-expect-error - "registry.cart.count" is registered as a number
+			signal.set("registry.cart.count", "one")
+			// @ts-expect-error - "registry.theme" only accepts "light" or "dark"
+			signal.create("registry.theme", "blue")
+
+			expect(signal.get("registry.cart.count")).toBe("one")
+		})
+
+		it("should type callbacks of registered signals", () => {
+			signal.create("registry.cart.count", 1)
+			signal.computed("registry.cart.total", ["registry.cart.count"], (count) => (count as number) * 10)
+
+			let received: number | undefined
+			const unsubscribe = signal.subscribe("registry.cart.count", (value) => {
+				expectTypeOf(value).toEqualTypeOf<number>()
+				received = value
+			})
+			signal.set("registry.cart.count", 2)
+			unsubscribe?.()
+
+			expect(received).toBe(2)
+			expect(signal.get("registry.cart.total")).toBe(20)
+		})
+
+		it("should keep unregistered IDs loosely typed", () => {
+			signal.create("registry.unknown", { open: true })
+			signal.create("registry.label", "hello")
+
+			expectTypeOf(signal.get("registry.unknown")).toEqualTypeOf<unknown>()
+			expectTypeOf(signal.get<string>("registry.label")).toEqualTypeOf<string | undefined>()
+			expect(signal.get("registry.unknown")).toEqual({ open: true })
+		})
+	})
+
+	describe("hooks and components", () => {
+		it("should type hook values of registered signals", () => {
+			const { result } = renderHook(() => useSignal("registry.user.name", "Ada"))
+			const { result: initial } = renderHook(() =>
+				useSignalSelector("registry.user.name", "Ada", (name) => name.charAt(0))
+			)
+
+			expectTypeOf(result.current[0]).toEqualTypeOf<string>()
+			expectTypeOf(result.current[1]).parameter(0).toEqualTypeOf<string | ((prev: string) => string)>()
+			expect(result.current[0]).toBe("Ada")
+			expect(initial.current).toBe("A")
+		})
+
+		it("should widen literal initial values of unregistered signals", () => {
+			const { result } = renderHook(() => useSignal("registry.count", 0))
+
+			expectTypeOf(result.current[0]).toEqualTypeOf<number>()
+			expect(result.current[0]).toBe(0)
+		})
+
+		it("should type Signal render props of registered signals", () => {
+			signal.create("registry.user.name", "Ada")
+
+			const { container } = render(
+				<Signal id="registry.user.name">
+					{(name) => {
+						expectTypeOf(name).toEqualTypeOf<string>()
+						return <span>{name.toUpperCase()}</span>
+					}}
+				</Signal>
+			)
+
+			expect(container.textContent).toBe("ADA")
+		})
+	})
+})
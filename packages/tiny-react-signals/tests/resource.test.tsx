@@ -0,0 +1,212 @@
+import { act, render, renderHook, waitFor } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { Signal } from "../src/components/signal"
+import { REACTIVE_CORE } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { useSignalSelector } from "../src/hooks/use-signal-selector"
+import { type ResourceState, createResource } from "../src/resource"
+import { signal } from "../src/signal"
+
+function deferred<T>() {
+	let resolve!: (value: T) => void
+	const promise = new Promise<T>((res) => {
+		resolve = res
+	})
+	return { promise, resolve }
+}
+
+describe("Resource Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	describe("Fetching", () => {
+		it("should move from loading to success", async () => {
+			const request = deferred<string>()
+			createResource(REACTIVE_CORE, "user", () => request.promise)
+
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("user")).toEqual({
+				status: "loading",
+				data: undefined,
+				error: undefined,
+			})
+
+			request.resolve("Ada")
+			await request.promise
+			await Promise.resolve()
+
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("user")).toEqual({
+				status: "success",
+				data: "Ada",
+				error: undefined,
+			})
+		})
+
+		it("should expose errors and keep the last data", async () => {
+			const fetcher = vi.fn().mockResolvedValueOnce("first").mockRejectedValueOnce(new Error("offline"))
+			const resource = createResource(REACTIVE_CORE, "feed", fetcher)
+
+			await waitFor(() => expect(REACTIVE_CORE.getValue<ResourceState<string>>("feed")?.status).toBe("success"))
+
+			await resource.refetch()
+
+			const state = resource.get()
+			expect(state?.status).toBe("error")
+			expect(state?.data).toBe("first")
+			expect((state?.error as Error).message).toBe("offline")
+		})
+
+		it("should start idle with immediate disabled and use initial data", () => {
+			const fetcher = vi.fn(async () => "fresh")
+			createResource(REACTIVE_CORE, "settings", fetcher, { immediate: false, initialData: "cached" })
+			createResource(REACTIVE_CORE, "profile", fetcher, { immediate: false })
+
+			expect(fetcher).not.toHaveBeenCalled()
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("settings")?.status).toBe("success")
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("settings")?.data).toBe("cached")
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("profile")?.status).toBe("idle")
+		})
+	})
+
+	describe("Dependencies", () => {
+		it("should refetch with dependency values when they change", async () => {
+			REACTIVE_CORE.createSignal("userId", 1)
+			const fetcher = vi.fn(async ([userId]: unknown[]) => `user-${userId}`)
+
+			createResource(REACTIVE_CORE, "user", fetcher, { deps: ["userId"] })
+			await waitFor(() => expect(REACTIVE_CORE.getValue<ResourceState<string>>("user")?.data).toBe("user-1"))
+
+			REACTIVE_CORE.updateSignal("userId", 2)
+
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("user")).toEqual({
+				status: "loading",
+				data: "user-1",
+				error: undefined,
+			})
+			await waitFor(() => expect(REACTIVE_CORE.getValue<ResourceState<string>>("user")?.data).toBe("user-2"))
+			expect(fetcher).toHaveBeenCalledTimes(2)
+		})
+
+		it("should abort superseded runs and ignore their results", async () => {
+			REACTIVE_CORE.createSignal("query", "a")
+			const requests: Array<{ query: unknown; signal: AbortSignal; resolve: (value: string) => void }> = []
+
+			createResource(
+				REACTIVE_CORE,
+				"results",
+				([query], { signal: abortSignal }) =>
+					new Promise<string>((resolve) => {
+						requests.push({ query, signal: abortSignal, resolve })
+					}),
+				{ deps: ["query"] }
+			)
+
+			REACTIVE_CORE.updateSignal("query", "ab")
+
+			expect(requests).toHaveLength(2)
+			expect(requests[0].signal.aborted).toBe(true)
+			expect(requests[1].signal.aborted).toBe(false)
+
+			requests[1].resolve("results for ab")
+			requests[0].resolve("results for a")
+
+			await waitFor(() => expect(REACTIVE_CORE.getValue<ResourceState<string>>("results")?.data).toBe("results for ab"))
+			await Promise.resolve()
+			expect(REACTIVE_CORE.getValue<ResourceState<string>>("results")?.data).toBe("results for ab")
+		})
+
+		it("should go back to the previous state when aborted", async () => {
+			const fetcher = vi
+				.fn()
+				.mockResolvedValueOnce("first")
+				.mockReturnValue(new Promise<string>(() => {}))
+			const resource = createResource(REACTIVE_CORE, "report", fetcher)
+			const draft = createResource(REACTIVE_CORE, "draft", fetcher, { immediate: false })
+			await waitFor(() => expect(resource.get()?.status).toBe("success"))
+
+			void resource.refetch()
+			void resource.refetch()
+			void draft.refetch()
+			expect(resource.get()?.status).toBe("loading")
+
+			resource.abort()
+			draft.abort()
+
+			expect(resource.get()).toEqual({ status: "success", data: "first", error: undefined })
+			expect(draft.get()).toEqual({ status: "idle", data: undefined, error: undefined })
+		})
+
+		it("should stop refetching and remove the signal when disposed", () => {
+			REACTIVE_CORE.createSignal("page", 1)
+			let abortSignal: AbortSignal | undefined
+			const fetcher = vi.fn((_: unknown[], context: { signal: AbortSignal }) => {
+				abortSignal = context.signal
+				return new Promise<string>(() => {})
+			})
+
+			const resource = createResource(REACTIVE_CORE, "page.data", fetcher, { deps: ["page"] })
+			resource.dispose()
+
+			REACTIVE_CORE.updateSignal("page", 2)
+
+			expect(fetcher).toHaveBeenCalledTimes(1)
+			expect(abortSignal?.aborted).toBe(true)
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain("page.data")
+		})
+	})
+
+	describe("Integration", () => {
+		it("should create resources through the signal API", async () => {
+			signal.create("city", "Lagos")
+			signal.resource("weather", async ([city]) => `Sunny in ${city}`, { deps: ["city"] })
+
+			await waitFor(() => expect(signal.get<ResourceState<string>>("weather")?.data).toBe("Sunny in Lagos"))
+		})
+
+		it("should work with useSignal and useSignalSelector", async () => {
+			const request = deferred<number[]>()
+			signal.resource("numbers", () => request.promise)
+
+			const { result: state } = renderHook(() => useSignal<ResourceState<number[]>>("numbers", {} as never))
+			const { result: count } = renderHook(() =>
+				useSignalSelector<ResourceState<number[]>, number>("numbers", {} as never, (value) => value.data?.length ?? 0)
+			)
+
+			expect(state.current[0].status).toBe("loading")
+			expect(count.current).toBe(0)
+
+			await act(async () => {
+				request.resolve([1, 2, 3])
+				await request.promise
+			})
+
+			expect(state.current[0].status).toBe("success")
+			expect(count.current).toBe(3)
+		})
+
+		it("should render resource state with the Signal component", async () => {
+			const request = deferred<string>()
+			signal.resource("greeting", () => request.promise)
+
+			const { container } = render(
+				<Signal id="greeting">
+					{(state: ResourceState<string>) => (state.status === "success" ? state.data : "Fetching...")}
+				</Signal>
+			)
+
+			expect(container.textContent).toBe("Fetching...")
+
+			await act(async () => {
+				request.resolve("Hello!")
+				await request.promise
+			})
+
+			expect(container.textContent).toBe("Hello!")
+		})
+	})
+})
@@ -0,0 +1,230 @@
+import { act, render } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { Signal } from "../src/components/signal"
+import { SignalEngineProvider } from "../src/context"
+import { REACTIVE_CORE, createEngine } from "../src/core"
+import type { SchedulerTiming } from "../src/scheduler"
+
+function fakeTiming(): SchedulerTiming {
+	return {
+		microtask: (flush) => setTimeout(flush, 0),
+		animationFrame: (flush) => setTimeout(flush, 16),
+	}
+}
+
+function boundElement(): HTMLElement {
+	const element = document.createElement("span")
+	document.body.appendChild(element)
+	return element
+}
+
+describe("Scheduler Test Suite", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		document.body.innerHTML = ""
+	})
+
+	describe("Engine Scheduler", () => {
+		it("should run bindings synchronously by default", () => {
+			const engine = createEngine()
+			engine.createSignal("sync.count", 0)
+			const bindingFn = vi.fn()
+
+			engine.bindElement(boundElement(), "sync.count", bindingFn)
+			engine.updateSignal("sync.count", 1)
+
+			expect(engine.getScheduler()).toBe("sync")
+			expect(bindingFn).toHaveBeenCalledTimes(2)
+			expect(bindingFn).toHaveBeenLastCalledWith(expect.any(HTMLElement), 1)
+		})
+
+		it("should coalesce bindings to one write per frame with the latest value", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("frame.x", 0)
+			const element = boundElement()
+			const bindingFn = vi.fn((el: HTMLElement, value: number) => {
+				el.textContent = String(value)
+			})
+
+			engine.bindElement(element, "frame.x", bindingFn)
+			for (let x = 1; x <= 100; x++) {
+				engine.updateSignal("frame.x", x)
+			}
+
+			expect(bindingFn).toHaveBeenCalledTimes(1)
+			expect(element.textContent).toBe("0")
+
+			vi.advanceTimersByTime(16)
+
+			expect(bindingFn).toHaveBeenCalledTimes(2)
+			expect(element.textContent).toBe("100")
+		})
+
+		it("should flush microtask bindings before the next frame", () => {
+			const engine = createEngine({ scheduler: "microtask", timing: fakeTiming() })
+			engine.createSignal("micro.value", "a")
+			const element = boundElement()
+
+			engine.bindElement(element, "micro.value", (el, value) => {
+				el.textContent = value as string
+			})
+			engine.updateSignal("micro.value", "b")
+			engine.updateSignal("micro.value", "c")
+
+			vi.advanceTimersByTime(0)
+			expect(element.textContent).toBe("c")
+		})
+
+		it("should use the default timing when none is injected", async () => {
+			vi.useRealTimers()
+			const engine = createEngine({ scheduler: "microtask" })
+			engine.createSignal("micro.real", 1)
+			const bindingFn = vi.fn()
+
+			engine.bindElement(boundElement(), "micro.real", bindingFn)
+			engine.updateSignal("micro.real", 2)
+			engine.updateSignal("micro.real", 3)
+			await Promise.resolve()
+
+			expect(bindingFn).toHaveBeenCalledTimes(2)
+			expect(bindingFn).toHaveBeenLastCalledWith(expect.any(HTMLElement), 3)
+		})
+
+		it("should keep subscribers synchronous unless they opt in", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("frame.sub", 0)
+			const callback = vi.fn()
+			const scheduledCallback = vi.fn()
+
+			engine.subscribe("frame.sub", callback)
+			engine.subscribe("frame.sub", scheduledCallback, { scheduler: "animationFrame" })
+			engine.updateSignal("frame.sub", 1)
+			engine.updateSignal("frame.sub", 2)
+
+			expect(callback).toHaveBeenCalledTimes(2)
+			expect(scheduledCallback).not.toHaveBeenCalled()
+
+			vi.advanceTimersByTime(16)
+			expect(scheduledCallback).toHaveBeenCalledTimes(1)
+			expect(scheduledCallback).toHaveBeenCalledWith(2)
+		})
+
+		it("should skip bindings removed before the flush", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("frame.unbound", 0)
+			const bindingFn = vi.fn()
+
+			const unbind = engine.bindElement(boundElement(), "frame.unbound", bindingFn)
+			engine.updateSignal("frame.unbound", 1)
+			unbind?.()
+			vi.advanceTimersByTime(16)
+
+			expect(bindingFn).toHaveBeenCalledTimes(1)
+		})
+
+		it("should schedule updates made while flushing for the next tick", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("frame.a", 0)
+			engine.createSignal("frame.b", 0)
+			const bindingB = vi.fn()
+
+			engine.bindElement(boundElement(), "frame.a", (_, value) => {
+				engine.updateSignal("frame.b", (value as number) * 10)
+			})
+			engine.bindElement(boundElement(), "frame.b", bindingB)
+			engine.updateSignal("frame.a", 1)
+
+			vi.advanceTimersByTime(16)
+			expect(bindingB).toHaveBeenCalledTimes(1)
+
+			vi.advanceTimersByTime(16)
+			expect(bindingB).toHaveBeenLastCalledWith(expect.any(HTMLElement), 10)
+		})
+
+		it("should be reconfigurable", () => {
+			const engine = createEngine()
+			engine.createSignal("config.value", 0)
+			const bindingFn = vi.fn()
+
+			engine.configure({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.bindElement(boundElement(), "config.value", bindingFn)
+			engine.updateSignal("config.value", 1)
+
+			expect(engine.getScheduler()).toBe("animationFrame")
+			expect(bindingFn).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe("Binding Scheduler", () => {
+		it("should let a binding override the engine scheduler", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("override.value", 0)
+			const syncBinding = vi.fn()
+			const frameBinding = vi.fn()
+
+			engine.bindElement(boundElement(), "override.value", syncBinding, { scheduler: "sync" })
+			engine.bindElement(boundElement(), "override.value", frameBinding)
+			engine.updateSignal("override.value", 1)
+
+			expect(syncBinding).toHaveBeenCalledTimes(2)
+			expect(frameBinding).toHaveBeenCalledTimes(1)
+		})
+
+		it("should schedule conditional bindings and check the condition on flush", () => {
+			const engine = createEngine({ timing: fakeTiming() })
+			engine.createSignal("when.value", 0)
+			const element = boundElement()
+
+			engine.bindWhen(
+				element,
+				"when.value",
+				(value: number) => value % 2 === 0,
+				(el, value) => {
+					el.textContent = String(value)
+				},
+				{ scheduler: "microtask" }
+			)
+			engine.updateSignal("when.value", 2)
+			engine.updateSignal("when.value", 3)
+			vi.advanceTimersByTime(0)
+
+			expect(element.textContent).toBe("0")
+		})
+
+		it("should schedule Signal component updates", () => {
+			const engine = createEngine({ scheduler: "animationFrame", timing: fakeTiming() })
+			engine.createSignal("component.count", 0)
+
+			const { container } = render(
+				<SignalEngineProvider engine={engine}>
+					<Signal id="component.count" />
+					<Signal id="component.count" scheduler="sync" />
+				</SignalEngineProvider>
+			)
+			const [framed, immediate] = Array.from(container.querySelectorAll("span"))
+
+			act(() => {
+				engine.updateSignal("component.count", 1)
+				engine.updateSignal("component.count", 2)
+			})
+
+			expect(framed.textContent).toBe("0")
+			expect(immediate.textContent).toBe("2")
+
+			act(() => {
+				vi.advanceTimersByTime(16)
+			})
+			expect(framed.textContent).toBe("2")
+		})
+	})
+})
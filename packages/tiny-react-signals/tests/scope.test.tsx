@@ -0,0 +1,175 @@
+import { render } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { renderToString } from "react-dom/server"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { Signal } from "../src/components/signal"
+import { SignalEngineProvider } from "../src/context"
+import { REACTIVE_CORE, type ReactiveEngine, createEngine } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { getCurrentEngine, runWithEngine, setEngineResolver } from "../src/scope"
+import { signal } from "../src/signal"
+
+describe("Engine Scope Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	afterEach(() => {
+		setEngineResolver(null)
+	})
+
+	describe("runWithEngine", () => {
+		it("should default to the global engine", () => {
+			expect(getCurrentEngine()).toBe(REACTIVE_CORE)
+		})
+
+		it("should route the signal API to the scoped engine", () => {
+			const engine = createEngine()
+
+			runWithEngine(engine, () => {
+				signal.create("request.user", "alice")
+				signal.set("request.user", "bob")
+
+				expect(signal.get("request.user")).toBe("bob")
+			})
+
+			expect(engine.getValue("request.user")).toBe("bob")
+			expect(signal.get("request.user")).toBeUndefined()
+		})
+
+		it("should restore the outer engine after nested scopes and errors", () => {
+			const outer = createEngine()
+			const inner = createEngine()
+
+			runWithEngine(outer, () => {
+				expect(() =>
+					runWithEngine(inner, () => {
+						expect(getCurrentEngine()).toBe(inner)
+						throw new Error("render failed")
+					})
+				).toThrow("render failed")
+
+				expect(getCurrentEngine()).toBe(outer)
+			})
+
+			expect(getCurrentEngine()).toBe(REACTIVE_CORE)
+		})
+	})
+
+	describe("setEngineResolver", () => {
+		it("should resolve the engine for the current request", () => {
+			let requestEngine: ReactiveEngine | undefined
+			setEngineResolver(() => requestEngine)
+
+			const first = createEngine()
+			const second = createEngine()
+
+			requestEngine = first
+			signal.create("cart.count", 1)
+
+			requestEngine = second
+			signal.create("cart.count", 2)
+
+			requestEngine = undefined
+
+			expect(first.getValue("cart.count")).toBe(1)
+			expect(second.getValue("cart.count")).toBe(2)
+			expect(signal.get("cart.count")).toBeUndefined()
+		})
+
+		it("should prefer explicit scopes over the resolver", () => {
+			const resolved = createEngine()
+			const explicit = createEngine()
+			setEngineResolver(() => resolved)
+
+			runWithEngine(explicit, () => {
+				expect(getCurrentEngine()).toBe(explicit)
+			})
+
+			expect(getCurrentEngine()).toBe(resolved)
+		})
+	})
+
+	describe("Computed signals", () => {
+		it("should read the owning engine from tracked compute functions", () => {
+			const engine = createEngine()
+			REACTIVE_CORE.createSignal("scoped.a", 100)
+			engine.createSignal("scoped.a", 1)
+			engine.createTrackedComputed("scoped.double", () => (signal.get<number>("scoped.a") ?? -1) * 2)
+
+			expect(engine.getValue("scoped.double")).toBe(2)
+
+			engine.updateSignal("scoped.a", 5)
+
+			expect(engine.getValue("scoped.double")).toBe(10)
+			expect(getCurrentEngine()).toBe(REACTIVE_CORE)
+		})
+
+		it("should keep reading the owning engine when recomputing outside runWithEngine", () => {
+			const engine = createEngine()
+			runWithEngine(engine, () => {
+				signal.create("scoped.count", 1)
+				signal.derive("scoped.label", () => `count: ${signal.get("scoped.count")}`)
+			})
+
+			engine.updateSignal("scoped.count", 2)
+
+			expect(engine.getValue("scoped.label")).toBe("count: 2")
+		})
+
+		it("should read the owning engine when recomputing explicitly", () => {
+			const engine = createEngine()
+			REACTIVE_CORE.createSignal("scoped.rate", 100)
+			engine.createSignal("scoped.rate", 1)
+			engine.createSignal("scoped.amount", 3)
+			engine.createComputed(
+				"scoped.total",
+				["scoped.amount"],
+				(amount: unknown) => (amount as number) * (signal.get<number>("scoped.rate") ?? -1)
+			)
+
+			engine.updateSignal("scoped.rate", 2)
+			engine.recomputeSignal("scoped.total")
+
+			expect(engine.getValue("scoped.total")).toBe(6)
+		})
+	})
+
+	describe("Server rendering", () => {
+		function Greeting() {
+			const [name] = useSignal("request.name", "anonymous")
+			return <p>{name}</p>
+		}
+
+		it("should render concurrent requests against their own engines", () => {
+			const renderRequest = (name: string) => {
+				const engine = createEngine()
+				engine.createSignal("request.name", name)
+
+				return renderToString(
+					<SignalEngineProvider engine={engine}>
+						<Greeting />
+					</SignalEngineProvider>
+				)
+			}
+
+			expect(renderRequest("alice")).toContain("alice")
+			expect(renderRequest("bob")).toContain("bob")
+			expect(REACTIVE_CORE.getValue("request.name")).toBeUndefined()
+		})
+
+		it("should use the resolved engine for hooks without a provider", () => {
+			const engine = createEngine()
+			engine.createSignal("user.name", "Resolved")
+			setEngineResolver(() => engine)
+
+			const { container } = render(<Signal id="user.name" />)
+
+			expect(container.textContent).toBe("Resolved")
+		})
+	})
+})
@@ -1,5 +1,5 @@
 import { type Mock, beforeEach, describe, expect, it, vi } from "vitest"
-import { REACTIVE_CORE } from "../src/core"
+import { CANCEL_UPDATE, REACTIVE_CORE, SignalDependencyError } from "../src/core"
 import type { BindingFunction, CallbackFunction, ComputeFunction, ConditionFunction } from "../src/core"
 import { signal } from "../src/signal"
 
@@ -170,6 +170,45 @@ describe("Signal API Test Suite", () => {
 			expect(signal.get("doubled")).toBe(6)
 			expect(signal.get("quadrupled")).toBe(12)
 		})
+
+		it("should defer lazy computed signals until they are read", () => {
+			signal.create("table", [5, 10, 15])
+
+			const total = vi.fn((...deps: unknown[]) => (deps[0] as number[]).reduce((sum, value) => sum + value, 0))
+			signal.computed("table.total", ["table"], total, { lazy: true })
+
+			signal.set("table", [1, 2])
+			expect(total).not.toHaveBeenCalled()
+
+			expect(signal.get("table.total")).toBe(3)
+			expect(total).toHaveBeenCalledTimes(1)
+		})
+
+		it("should derive computed signals from the signals they read", () => {
+			signal.create("first", "Ada")
+			signal.create("last", "Lovelace")
+
+			signal.derive("full", () => `${signal.get<string>("first")} ${signal.get<string>("last")}`)
+
+			expect(signal.get("full")).toBe("Ada Lovelace")
+
+			signal.set("last", "Byron")
+			expect(signal.get("full")).toBe("Ada Byron")
+		})
+	})
+
+	describe("Interceptors", () => {
+		it("should intercept writes to a single signal", () => {
+			signal.create("quantity", 1)
+			const remove = signal.intercept<number>(({ next }) => (next < 1 ? CANCEL_UPDATE : next), "quantity")
+
+			signal.set("quantity", 0)
+			expect(signal.get("quantity")).toBe(1)
+
+			remove?.()
+			signal.set("quantity", 0)
+			expect(signal.get("quantity")).toBe(0)
+		})
 	})
 
 	describe("DOM Bindings", () => {
@@ -396,6 +435,23 @@ describe("Signal API Test Suite", () => {
 
 			expect(callback).toHaveBeenCalledWith(30)
 		})
+
+		it("should batch updates through computed chains", () => {
+			signal.create("celsius", 0)
+			signal.computed("fahrenheit", ["celsius"], (...deps: unknown[]) => (deps[0] as number) * 1.8 + 32)
+			signal.computed("label", ["fahrenheit"], (...deps: unknown[]) => `${deps[0]}°F`)
+
+			const callback = vi.fn()
+			signal.subscribe("label", callback)
+
+			signal.batch(() => {
+				signal.set("celsius", 50)
+				signal.set("celsius", 100)
+			})
+
+			expect(signal.get("label")).toBe("212°F")
+			expect(callback).toHaveBeenCalledTimes(1)
+		})
 	})
 
 	describe("Cleanup & Management", () => {
@@ -437,6 +493,63 @@ describe("Signal API Test Suite", () => {
 			expect(signal.get("app.lang")).toBe("en")
 		})
 
+		it("should remove signals by glob", () => {
+			signal.create("cart.items.0.price", 10)
+			signal.create("cart.total", 10)
+			signal.create("cart", "root")
+
+			signal.removeByPrefix("cart.**")
+
+			expect(signal.getActiveSignals()).toEqual(["cart"])
+		})
+
+		it("should report created and removed signals matching a pattern", () => {
+			const events: string[] = []
+			const stopCreated = signal.onSignalCreated((id) => events.push(`+${id}`), "user.**")
+			const stopRemoved = signal.onSignalRemoved((id) => events.push(`-${id}`), "user.**")
+			const stopComputed = signal.onComputedRegistered((id) => events.push(`=${id}`))
+
+			signal.create("user.name", "Ada")
+			signal.create("app.theme", "dark")
+			signal.derive("user.greeting", () => `Hi ${signal.get("user.name")}`)
+			signal.removeByPrefix("user.")
+
+			expect(events).toEqual(["+user.name", "+user.greeting", "=user.greeting", "-user.name", "-user.greeting"])
+
+			stopCreated()
+			stopRemoved()
+			stopComputed()
+		})
+
+		it("should query signals by pattern", () => {
+			signal.create("user.1.name", "Ada")
+			signal.create("user.2.name", "Grace")
+			signal.create("user.2.email", "grace@example.com")
+
+			const names = signal.query("user.{id}.name")
+
+			expect(names.map((match) => [match.groups.id, match.value])).toEqual([
+				["1", "Ada"],
+				["2", "Grace"],
+			])
+		})
+
+		it("should apply cascade policies when removing signals", () => {
+			signal.create("price", 5)
+			signal.computed("price.doubled", ["price"], (price: unknown) => (price as number) * 2)
+
+			expect(() => signal.remove("price", { cascade: "refuse" })).toThrow(SignalDependencyError)
+
+			signal.remove("price", { cascade: "cascade" })
+			expect(signal.getActiveSignals()).toEqual([])
+
+			const total = signal.create("total", 3)
+			signal.computed("total.label", ["total"], (value: unknown) => `Total: ${value}`)
+			total.dispose()
+
+			expect(signal.get("total.label")).toBe("Total: 3")
+		})
+
 		it("should handle removal of non-existent signals", () => {
 			expect(() => {
 				signal.remove("does-not-exist")
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { REACTIVE_CORE, type ReactiveEngine, createEngine } from "../src/core"
+import { signal } from "../src/signal"
+import { type SyncChannel, type SyncMessage, broadcastChannel, memoryChannel, syncSignals } from "../src/sync"
+
+let channelCounter = 0
+
+function createTabs(count: number, prefixes: string | string[] = "user.") {
+	const name = `tabs-${++channelCounter}`
+	return Array.from({ length: count }, (_, index) => {
+		const engine = createEngine()
+		engine.createSignal("user.status", "offline")
+		engine.createSignal("cart.items", 0)
+		const stop = syncSignals(engine, prefixes, { channel: memoryChannel(name), origin: `tab-${index}` })
+		return { engine, stop }
+	})
+}
+
+function manualChannel() {
+	const posted: SyncMessage[] = []
+	let listener: ((message: SyncMessage) => void) | null = null
+	const channel: SyncChannel = {
+		postMessage: (message) => posted.push(message),
+		subscribe(fn) {
+			listener = fn
+			return () => {
+				listener = null
+			}
+		},
+	}
+	return { channel, posted, deliver: (message: SyncMessage) => listener?.(message) }
+}
+
+describe("Sync Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	describe("Propagation", () => {
+		it("should apply updates in other tabs", () => {
+			const [a, b, c] = createTabs(3)
+
+			a.engine.updateSignal("user.status", "online")
+
+			expect(b.engine.getValue("user.status")).toBe("online")
+			expect(c.engine.getValue("user.status")).toBe("online")
+		})
+
+		it("should only sync matching prefixes", () => {
+			const [a, b] = createTabs(2, "user.")
+
+			a.engine.updateSignal("cart.items", 5)
+
+			expect(b.engine.getValue("cart.items")).toBe(0)
+		})
+
+		it("should accept several prefixes", () => {
+			const [a, b] = createTabs(2, ["user.", "cart."])
+
+			a.engine.updateSignal("cart.items", 5)
+
+			expect(b.engine.getValue("cart.items")).toBe(5)
+		})
+
+		it("should sync signals created after syncing started", () => {
+			const [a, b] = createTabs(2)
+
+			a.engine.createSignal("user.theme", "light")
+			b.engine.createSignal("user.theme", "light")
+			a.engine.updateSignal("user.theme", "dark")
+
+			expect(b.engine.getValue("user.theme")).toBe("dark")
+		})
+
+		it("should forget removed signals", () => {
+			const [a, b] = createTabs(2)
+
+			b.engine.cleanup("user.status")
+			a.engine.updateSignal("user.status", "online")
+			b.engine.createSignal("user.status", "offline")
+			a.engine.updateSignal("user.status", "away")
+
+			expect(b.engine.getValue("user.status")).toBe("away")
+		})
+
+		it("should send raw values so transformers run in each tab", () => {
+			const name = `tabs-${++channelCounter}`
+			const engines: ReactiveEngine[] = [createEngine(), createEngine()]
+			for (const engine of engines) {
+				engine.createSignal("user.name", "ada", { transform: (value: string) => value.toUpperCase() })
+				syncSignals(engine, "user.", { channel: memoryChannel(name) })
+			}
+
+			engines[0].updateSignal("user.name", "grace")
+
+			expect(engines[1].getRawValue("user.name")).toBe("grace")
+			expect(engines[1].getValue("user.name")).toBe("GRACE")
+		})
+
+		it("should not echo remote updates back", () => {
+			const { channel, posted, deliver } = manualChannel()
+			const engine = createEngine()
+			engine.createSignal("user.status", "offline")
+			syncSignals(engine, "user.", { channel, origin: "local" })
+
+			deliver({ id: "user.status", value: "away", clock: 1, origin: "remote" })
+
+			expect(engine.getValue("user.status")).toBe("away")
+			expect(posted).toHaveLength(0)
+		})
+
+		it("should not echo remote updates whose notification is rate limited", () => {
+			vi.useFakeTimers()
+			const { channel, posted, deliver } = manualChannel()
+			const engine = createEngine()
+			engine.createSignal("user.status", "offline", { debounce: { notify: 5 } })
+			syncSignals(engine, "user.", { channel, origin: "local" })
+
+			deliver({ id: "user.status", value: "away", clock: 1, origin: "remote" })
+			vi.advanceTimersByTime(5)
+			expect(posted).toHaveLength(0)
+
+			engine.updateSignal("user.status", "online")
+			vi.advanceTimersByTime(5)
+			expect(posted).toEqual([{ id: "user.status", value: "online", clock: 2, origin: "local" }])
+		})
+
+		it("should stop syncing once stopped", () => {
+			const [a, b] = createTabs(2)
+
+			b.stop()
+			a.engine.updateSignal("user.status", "online")
+
+			expect(b.engine.getValue("user.status")).toBe("offline")
+		})
+	})
+
+	describe("Conflicts", () => {
+		it("should ignore remote writes older than the local one", () => {
+			const { channel, deliver } = manualChannel()
+			const engine = createEngine()
+			engine.createSignal("user.status", "offline")
+			syncSignals(engine, "user.", { channel, origin: "local" })
+
+			deliver({ id: "user.status", value: "away", clock: 4, origin: "remote" })
+			engine.updateSignal("user.status", "online")
+			deliver({ id: "user.status", value: "busy", clock: 3, origin: "other" })
+
+			expect(engine.getValue("user.status")).toBe("online")
+		})
+
+		it("should advance the clock past remote writes", () => {
+			const { channel, posted, deliver } = manualChannel()
+			const engine = createEngine()
+			engine.createSignal("user.status", "offline")
+			syncSignals(engine, "user.", { channel, origin: "local" })
+
+			deliver({ id: "user.status", value: "away", clock: 7, origin: "remote" })
+			engine.updateSignal("user.status", "online")
+
+			expect(posted[0]).toEqual({ id: "user.status", value: "online", clock: 8, origin: "local" })
+		})
+
+		it("should break clock ties by origin", () => {
+			const { channel, deliver } = manualChannel()
+			const engine = createEngine()
+			engine.createSignal("user.status", "offline")
+			syncSignals(engine, "user.", { channel, origin: "m" })
+
+			engine.updateSignal("user.status", "mine")
+			deliver({ id: "user.status", value: "lower", clock: 1, origin: "a" })
+			expect(engine.getValue("user.status")).toBe("mine")
+
+			deliver({ id: "user.status", value: "higher", clock: 1, origin: "z" })
+			expect(engine.getValue("user.status")).toBe("higher")
+		})
+	})
+
+	describe("Channels", () => {
+		it("should fall back to a no-op channel without BroadcastChannel", () => {
+			vi.stubGlobal("BroadcastChannel", undefined)
+
+			const channel = broadcastChannel("test")
+			expect(() => channel.postMessage({ id: "a", value: 1, clock: 1, origin: "x" })).not.toThrow()
+
+			vi.unstubAllGlobals()
+		})
+
+		it("should sync the global engine through the signal API", () => {
+			const name = `tabs-${++channelCounter}`
+			const remote = createEngine()
+			remote.createSignal("user.status", "offline")
+			syncSignals(remote, "user.", { channel: memoryChannel(name) })
+
+			signal.create("user.status", "offline")
+			const stop = signal.sync("user.", { channel: memoryChannel(name) })
+
+			remote.updateSignal("user.status", "online")
+			expect(signal.get("user.status")).toBe("online")
+
+			stop()
+		})
+	})
+})
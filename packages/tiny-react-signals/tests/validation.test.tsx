@@ -0,0 +1,191 @@
+import { act, render, renderHook } from "@testing-library/react"
+// biome-ignore lint/correctness/noUnusedImports: UMD shit talk
+import * as React from "react"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { Signal } from "../src/components/signal"
+import { SignalList } from "../src/components/signal-list"
+import { REACTIVE_CORE } from "../src/core"
+import { useSignal } from "../src/hooks/use-signal"
+import { signal } from "../src/signal"
+import { type StandardSchemaV1, type ValidationIssue, getIssuesSignalId } from "../src/validation"
+
+function emailSchema(): StandardSchemaV1<string> {
+	return {
+		"~standard": {
+			version: 1,
+			vendor: "test",
+			validate: (value) =>
+				typeof value === "string" && value.includes("@")
+					? { value: value.trim().toLowerCase() }
+					: { issues: [{ message: "Invalid email" }] },
+		},
+	}
+}
+
+describe("Validation Test Suite", () => {
+	beforeEach(() => {
+		const activeSignals = REACTIVE_CORE.getActiveSignals()
+		for (const id of activeSignals) {
+			REACTIVE_CORE.cleanup(id)
+		}
+	})
+
+	describe("Standard Schema", () => {
+		it("should reject invalid writes and publish issues by default", () => {
+			REACTIVE_CORE.createSignal("form.email", "ada@example.com", { validate: emailSchema() })
+			const callback = vi.fn()
+			REACTIVE_CORE.subscribe("form.email", callback)
+
+			REACTIVE_CORE.updateSignal("form.email", "not-an-email")
+
+			expect(REACTIVE_CORE.getValue("form.email")).toBe("ada@example.com")
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.email"))).toEqual([{ message: "Invalid email" }])
+			expect(callback).not.toHaveBeenCalled()
+		})
+
+		it("should store the schema output and clear issues on a valid write", () => {
+			REACTIVE_CORE.createSignal("form.email", "", { validate: emailSchema() })
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.email"))).toEqual([{ message: "Invalid email" }])
+
+			REACTIVE_CORE.updateSignal("form.email", "  Grace@Example.com ")
+
+			expect(REACTIVE_CORE.getValue("form.email")).toBe("grace@example.com")
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.email"))).toBeNull()
+		})
+
+		it("should store invalid values in store mode", () => {
+			REACTIVE_CORE.createSignal("form.email", "ada@example.com", {
+				validate: emailSchema(),
+				validationMode: "store",
+			})
+
+			REACTIVE_CORE.updateSignal("form.email", "typo")
+
+			expect(REACTIVE_CORE.getValue("form.email")).toBe("typo")
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.email"))).toEqual([{ message: "Invalid email" }])
+		})
+
+		it("should refuse async schemas", () => {
+			const asyncSchema: StandardSchemaV1<string> = {
+				"~standard": { version: 1, vendor: "test", validate: async (value) => ({ value: value as string }) },
+			}
+
+			expect(() => REACTIVE_CORE.createSignal("form.name", "Ada", { validate: asyncSchema })).toThrow(TypeError)
+		})
+	})
+
+	describe("Validator Functions", () => {
+		it("should accept a function returning issues", () => {
+			REACTIVE_CORE.createSignal("form.age", 30, {
+				validate: (value: number) => (value < 0 ? [{ message: "Must be positive", path: ["age"] }] : undefined),
+			})
+
+			REACTIVE_CORE.updateSignal("form.age", -1)
+			expect(REACTIVE_CORE.getValue("form.age")).toBe(30)
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.age"))).toEqual([
+				{ message: "Must be positive", path: ["age"] },
+			])
+
+			REACTIVE_CORE.updateSignal("form.age", 31)
+			expect(REACTIVE_CORE.getValue("form.age")).toBe(31)
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.age"))).toBeNull()
+		})
+
+		it("should validate the value returned by interceptors", () => {
+			REACTIVE_CORE.createSignal("form.count", 1, {
+				intercept: ({ next }: { next: number }) => Math.round(next),
+				validate: (value: number) => (Number.isInteger(value) ? null : [{ message: "Not an integer" }]),
+			})
+
+			REACTIVE_CORE.updateSignal("form.count", 2.6)
+
+			expect(REACTIVE_CORE.getValue("form.count")).toBe(3)
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.count"))).toBeNull()
+		})
+
+		it("should add validation to an existing signal through upsert", () => {
+			REACTIVE_CORE.createSignal("form.name", "")
+			REACTIVE_CORE.upsertSignal("form.name", "", {
+				validate: (value: string) => (value ? null : [{ message: "Required" }]),
+			})
+
+			expect(REACTIVE_CORE.getValue(getIssuesSignalId("form.name"))).toEqual([{ message: "Required" }])
+		})
+
+		it("should remove the issues signal with its signal", () => {
+			REACTIVE_CORE.createSignal("form.name", "Ada", { validate: () => null })
+			expect(REACTIVE_CORE.getActiveSignals()).toContain(getIssuesSignalId("form.name"))
+
+			REACTIVE_CORE.cleanup("form.name")
+
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain(getIssuesSignalId("form.name"))
+		})
+	})
+
+	describe("Issues Signals", () => {
+		it("should keep issues signals out of patterns and lifecycle events", () => {
+			const created = vi.fn()
+			const removed = vi.fn()
+			const stopCreated = REACTIVE_CORE.onSignalCreated(created)
+			const stopRemoved = REACTIVE_CORE.onSignalRemoved(removed)
+
+			REACTIVE_CORE.createSignal("form.email", "ada@example.com", { validate: emailSchema() })
+
+			expect(REACTIVE_CORE.query("form.{id}").map((match) => match.id)).toEqual(["form.email"])
+			expect(REACTIVE_CORE.query("form.**").map((match) => match.id)).toEqual(["form.email"])
+			expect(REACTIVE_CORE.snapshot("form.")).toEqual({ "form.email": "ada@example.com" })
+			expect(created.mock.calls).toEqual([["form.email"]])
+
+			REACTIVE_CORE.cleanupMatching("form.")
+
+			expect(removed.mock.calls).toEqual([["form.email"]])
+			expect(REACTIVE_CORE.getActiveSignals()).not.toContain(getIssuesSignalId("form.email"))
+			stopCreated()
+			stopRemoved()
+		})
+
+		it("should not render issues signals as pattern items", () => {
+			signal.create("form.email", "", { validate: (value: string) => (value ? null : [{ message: "Required" }]) })
+
+			const { container } = render(
+				<SignalList pattern="form.{id}" keyBy="id">
+					{(_: unknown, signals: any) => <span>{String(signals.value)}</span>}
+				</SignalList>
+			)
+
+			expect(container.querySelectorAll("span")).toHaveLength(1)
+		})
+	})
+
+	describe("React Integration", () => {
+		it("should expose issues to useSignal", () => {
+			const required = (value: string) => (value ? null : [{ message: "Required" }])
+			const { result } = renderHook(() => {
+				const [name, setName] = useSignal<string>("profile.name", "Ada", { validate: required })
+				const [issues] = useSignal<ReadonlyArray<ValidationIssue> | null>(getIssuesSignalId("profile.name"), null)
+				return { name, setName, issues }
+			})
+
+			act(() => result.current.setName(""))
+
+			expect(result.current.name).toBe("Ada")
+			expect(result.current.issues).toEqual([{ message: "Required" }])
+		})
+
+		it("should render issues with the Signal component", () => {
+			signal.create("profile.email", "ada@example.com", { validate: emailSchema() })
+
+			const { container } = render(
+				<Signal id={getIssuesSignalId("profile.email")}>
+					{(issues: ReadonlyArray<ValidationIssue> | null) => issues?.map((issue) => issue.message).join(", ") ?? "OK"}
+				</Signal>
+			)
+
+			expect(container.textContent).toBe("OK")
+
+			act(() => signal.set("profile.email", "nope"))
+
+			expect(container.textContent).toBe("Invalid email")
+		})
+	})
+})
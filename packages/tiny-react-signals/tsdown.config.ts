@@ -5,6 +5,8 @@ export default defineConfig({
 		"src/index.ts",
 		"src/reactive.ts",
 		"src/signal.ts",
+		"src/context.ts",
+		"src/scope.ts",
 		"src/hooks/index.ts",
 		"src/hooks/use-signal.ts",
 		"src/hooks/use-signal-effect.ts",
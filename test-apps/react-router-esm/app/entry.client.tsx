@@ -7,6 +7,11 @@
 import { HydratedRouter } from "react-router/dom"
 import { startTransition, StrictMode } from "react";
 import { hydrateRoot } from "react-dom/client";
+import { hydrateSignals } from "tiny-react-signals";
+
+// Seed the client engine with the server's signals before React hydrates,
+// so the first client render matches the server markup
+hydrateSignals();
 
 startTransition(() => {
   hydrateRoot(
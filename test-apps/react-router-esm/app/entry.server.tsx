@@ -4,14 +4,25 @@
  * For more information, see https://remix.run/file-conventions/entry.server
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import { PassThrough } from "node:stream";
 import { createReadableStreamFromReadable } from "@react-router/node";
 import { type AppLoadContext, type EntryContext, ServerRouter } from "react-router"
 import { isbot } from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
+import { type ReactiveEngine, createEngine, setEngineResolver, SignalEngineProvider } from "tiny-react-signals";
 
 const ABORT_DELAY = 5_000;
 
+// Every request renders against its own signal engine, so concurrent renders
+// never see each other's signals. The resolver covers `signal.*` calls made
+// outside React while rendering (helpers); the provider covers hooks and
+// components. Loaders run before this handler, outside `requestEngines.run`,
+// so their `signal.*` calls reach the shared global engine: return data from
+// loaders instead of writing it to signals.
+const requestEngines = new AsyncLocalStorage<ReactiveEngine>();
+setEngineResolver(() => requestEngines.getStore());
+
 export default function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -22,31 +33,40 @@ export default function handleRequest(
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   loadContext: AppLoadContext
 ) {
-  return isbot(request.headers.get("user-agent") || "")
-    ? handleBotRequest(
-        request,
-        responseStatusCode,
-        responseHeaders,
-        reactRouterContext
-      )
-    : handleBrowserRequest(
-        request,
-        responseStatusCode,
-        responseHeaders,
-        reactRouterContext
-      );
+  const engine = createEngine();
+
+  return requestEngines.run(engine, () =>
+    isbot(request.headers.get("user-agent") || "")
+      ? handleBotRequest(
+          request,
+          responseStatusCode,
+          responseHeaders,
+          reactRouterContext,
+          engine
+        )
+      : handleBrowserRequest(
+          request,
+          responseStatusCode,
+          responseHeaders,
+          reactRouterContext,
+          engine
+        )
+  );
 }
 
 function handleBotRequest(
   request: Request,
   responseStatusCode: number,
   responseHeaders: Headers,
-  reactRouterContext: EntryContext
+  reactRouterContext: EntryContext,
+  engine: ReactiveEngine
 ) {
   return new Promise((resolve, reject) => {
     let shellRendered = false;
     const { pipe, abort } = renderToPipeableStream(
-      <ServerRouter context={reactRouterContext} url={request.url} />,
+      <SignalEngineProvider engine={engine}>
+        <ServerRouter context={reactRouterContext} url={request.url} />
+      </SignalEngineProvider>,
       {
         onAllReady() {
           shellRendered = true;
@@ -87,12 +107,15 @@ function handleBrowserRequest(
   request: Request,
   responseStatusCode: number,
   responseHeaders: Headers,
-  reactRouterContext: EntryContext
+  reactRouterContext: EntryContext,
+  engine: ReactiveEngine
 ) {
   return new Promise((resolve, reject) => {
     let shellRendered = false;
     const { pipe, abort } = renderToPipeableStream(
-      <ServerRouter context={reactRouterContext} url={request.url} />,
+      <SignalEngineProvider engine={engine}>
+        <ServerRouter context={reactRouterContext} url={request.url} />
+      </SignalEngineProvider>,
       {
         onShellReady() {
           shellRendered = true;